@@ -6,15 +6,18 @@ import tailwind from '@astrojs/tailwind';
 import node from '@astrojs/node';
 import cloudflare from '@astrojs/cloudflare';
 import { corsPlugin } from './src/lib/corsPlugin.js';
+import { i18nCheck } from './src/lib/i18nCheckIntegration.js';
+import { mockApiPlugin } from './src/lib/mockApiPlugin.js';
+import { stripLogsPlugin } from './src/lib/stripLogsPlugin.js';
 
 // https://astro.build/config
 export default defineConfig({
-  integrations: [react(), tailwind()],
+  integrations: [react(), tailwind(), i18nCheck()],
   output: "static",
   adapter: cloudflare(),
   //adapter: node({ mode: 'standalone' }),
   vite: {
-    plugins: [corsPlugin()]
+    plugins: [corsPlugin(), mockApiPlugin(), stripLogsPlugin()]
   }
 });
 
@@ -0,0 +1,180 @@
+// src/components/Cart.tsx
+import React, { useState } from "react";
+import { track } from "../lib/analytics";
+import { checkoutCart } from "../lib/api";
+import { CART_ITEM_PARAM, cartTotals, clearCart, removeCartItem, useCart } from "../lib/cart";
+import type { CartItem } from "../lib/cart";
+import { describeCheckoutError } from "../lib/checkout";
+import { BASE_CURRENCY, useCurrency } from "../lib/currency";
+import { getTranslator, localePath } from "../lib/i18n";
+import type { Locale } from "../lib/i18n";
+import { configurePath } from "../lib/routes";
+import { writeConfigParams } from "../lib/shareLink";
+import CurrencySwitcher from "./CurrencySwitcher";
+
+// Configurator URL restoring the item, marked so saving replaces it
+const editHref = (item: CartItem, locale: Locale) => {
+  const { config } = item;
+  const params = new URLSearchParams();
+  writeConfigParams(params, {
+    players: config.players,
+    locationId: config.locationId,
+    tier: config.tier,
+    billingPeriod: config.billingPeriod,
+    mods: config.mods,
+  });
+  params.set(CART_ITEM_PARAM, item.id);
+  return localePath(locale, configurePath({ id: config.gameId }, config.tier, params));
+};
+
+export default function Cart({ locale }: { locale?: Locale }) {
+  const t = getTranslator(locale);
+  const items = useCart();
+  const { currency, format } = useCurrency();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // per-server links, when the cart couldn't be checked out as one order
+  const [links, setLinks] = useState<{ item: CartItem; href: string }[] | null>(null);
+
+  const checkout = async () => {
+    setSubmitting(true);
+    setError(null);
+    const gameIds = items.map((i) => i.config.gameId);
+    track({ name: "checkout_started", gameIds, currency: currency.code, totalMonthly: cartTotals(items).monthly });
+    try {
+      // every item is validated and priced again on the worker
+      const { cartLinks } = await checkoutCart({ items: items.map((i) => i.config), currency: currency.code });
+      if (cartLinks.length === 1) {
+        clearCart(); // the billing cart holds the servers from here on
+        window.location.href = cartLinks[0];
+        return;
+      }
+      setLinks(items.map((item, i) => ({ item, href: cartLinks[i] })));
+      setSubmitting(false);
+    } catch (e) {
+      console.error("Cart checkout error:", e);
+      const message = describeCheckoutError(e, t);
+      track({ name: "checkout_failed", gameIds, error: message });
+      setError(message);
+      setSubmitting(false);
+    }
+  };
+
+  if (items.length === 0)
+    return (
+      <div className="text-center py-16">
+        <div className="text-6xl mb-4">🛒</div>
+        <h2 className="text-2xl font-bold mb-2">{t("cart.emptyHeading")}</h2>
+        <p className="text-gray-400 mb-6">{t("cart.emptyBody")}</p>
+        <a href={localePath(t.locale, "/")} className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-lg transition-colors">
+          {t("common.viewAllGames")}
+        </a>
+      </div>
+    );
+
+  const totals = cartTotals(items);
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8">
+      <ul className="flex-1 space-y-4">
+        {items.map((item) => {
+          const { config, quote } = item;
+          return (
+            <li key={item.id} className="bg-[#0f131b] rounded-2xl border border-white/10 p-5 flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <h3 className="font-bold text-lg truncate">
+                  {item.gameName} <span className="text-sm font-medium text-cyan-300">{t(`tier.${config.tier}`)}</span>
+                </h3>
+                <p className="text-sm text-white/60">
+                  {[
+                    t("cart.players", { count: config.players }),
+                    item.locationName || config.locationId,
+                    config.mods.length > 0 && t.plural("cart.mods", config.mods.length),
+                    t(`billing.${config.billingPeriod}`),
+                    config.promoCode && t("cart.promo", { code: config.promoCode }),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </div>
+              <div className="text-right">
+                <div className="font-semibold text-lg">
+                  {format(quote.totalMonthly)}
+                  <span className="text-xs text-white/60">{t("common.perMonthShort")}</span>
+                </div>
+                {quote.firstTermTotal !== quote.totalMonthly && (
+                  <div className="text-xs text-white/50">{t("cart.firstInvoice", { amount: format(quote.firstTermTotal) })}</div>
+                )}
+              </div>
+              <div className="flex gap-3 text-sm">
+                <a href={editHref(item, t.locale)} className="text-blue-400 hover:text-blue-300">
+                  {t("cart.edit")}
+                </a>
+                <button type="button" onClick={() => removeCartItem(item.id)} className="text-white/60 hover:text-white underline">
+                  {t("common.remove")}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <aside className="w-full lg:w-[340px] self-start bg-gradient-to-b from-blue-900/90 to-blue-900/70 rounded-2xl border border-white/10 p-6 shadow-[0_8px_30px_rgba(2,6,23,0.6)]">
+        <dl className="space-y-2 text-sm mb-6">
+          <div className="flex justify-between">
+            <dt className="text-white/70">{t("cart.totalMonthly")}</dt>
+            <dd className="font-semibold">{format(totals.monthly)}</dd>
+          </div>
+          <div className="flex justify-between text-lg">
+            <dt className="text-white/70">{t("cart.totalFirst")}</dt>
+            <dd className="font-bold">{format(totals.firstInvoice)}</dd>
+          </div>
+        </dl>
+        <p className="text-xs text-white/60 mb-4">
+          {t("cart.priceNote")}
+          {currency.code !== BASE_CURRENCY.code && ` ${t("cfg.converted", { currency: currency.code })}`}
+        </p>
+        {error && (
+          <p role="alert" className="mb-4 text-sm text-red-300">
+            {error}
+          </p>
+        )}
+        {links ? (
+          <div className="mb-2">
+            <h3 className="font-semibold mb-1">{t("cart.separateHeading")}</h3>
+            <p className="text-xs text-white/70 mb-3">{t("cart.separateBody")}</p>
+            <ol className="space-y-2">
+              {links.map(({ item, href }) => (
+                <li key={item.id}>
+                  {/* opening a link hands the server to the billing cart */}
+                  <a
+                    href={href}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={() => removeCartItem(item.id)}
+                    className="block rounded-lg bg-gradient-to-r from-blue-500 to-cyan-400 px-4 py-2 text-center font-semibold text-white hover:opacity-90 transition-opacity"
+                  >
+                    {t("cart.separateLink", { game: item.gameName, tier: t(`tier.${item.config.tier}`) })}
+                  </a>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={checkout}
+            disabled={submitting}
+            className="bg-gradient-to-r from-blue-500 to-cyan-400 text-white px-6 py-3 rounded-lg font-semibold w-full hover:opacity-90 transition-opacity shadow-lg disabled:opacity-60"
+          >
+            {submitting ? t("cfg.preparing") : t("cart.checkout")}
+          </button>
+        )}
+        <button type="button" onClick={clearCart} className="mt-3 w-full text-sm text-white/60 hover:text-white underline">
+          {t("cart.clear")}
+        </button>
+        <CurrencySwitcher locale={locale} className="mt-4" />
+      </aside>
+    </div>
+  );
+}
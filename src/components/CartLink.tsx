@@ -0,0 +1,18 @@
+// src/components/CartLink.tsx
+import React from "react";
+import { useCart } from "../lib/cart";
+import { getTranslator, localePath } from "../lib/i18n";
+import type { Locale } from "../lib/i18n";
+
+// Header link to the cart; hidden while the cart is empty
+export default function CartLink({ locale }: { locale?: Locale }) {
+  const items = useCart();
+  const t = getTranslator(locale);
+  if (items.length === 0) return null;
+
+  return (
+    <a href={localePath(t.locale, "/cart")} className="text-sm font-medium text-white/80 hover:text-white">
+      🛒 {t("cart.link", { count: items.length })}
+    </a>
+  );
+}
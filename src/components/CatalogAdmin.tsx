@@ -0,0 +1,360 @@
+// src/components/CatalogAdmin.tsx
+import React, { useMemo, useState } from "react";
+import { publishCatalog } from "../lib/api";
+import { apiErrorDetail } from "../lib/apiErrors";
+import { CATALOG_FILES, diffCatalogFile, validateCatalog } from "../lib/catalogAdmin";
+import type { Catalog, CatalogEntry, CatalogFile, EntryDiff } from "../lib/catalogAdmin";
+import { SERVER_TIERS } from "../lib/sizing";
+
+type FieldSpec = {
+  path: string; // dotted, e.g. "serverConfig.minRam"
+  label: string;
+  kind: "text" | "number" | "list" | "tier";
+  optional?: boolean; // an empty input removes the field
+};
+
+const SERVER_CONFIG_FIELDS: FieldSpec[] = [
+  "ramPerPlayer",
+  "cpuPerPlayer",
+  "diskPerPlayer",
+  "minRam",
+  "minCPU",
+  "standard_PID",
+  "premium_PID",
+  "standard_RAM_CID",
+  "premium_RAM_CID",
+  "standard_Location_CID",
+  "premium_Location_CID",
+].map((key) => ({ path: `serverConfig.${key}`, label: key, kind: "number", optional: true }));
+
+// Form fields per file, mirroring GameInfo, LocationInfo and PlanInfo
+const FILES: Record<CatalogFile, { title: string; fields: FieldSpec[]; blank: () => CatalogEntry }> = {
+  "games.json": {
+    title: "Games",
+    fields: [
+      { path: "id", label: "id", kind: "text" },
+      { path: "name", label: "name", kind: "text" },
+      { path: "image", label: "image URL", kind: "text", optional: true },
+      { path: "minPlayers", label: "minPlayers", kind: "number" },
+      { path: "maxPlayers", label: "maxPlayers", kind: "number" },
+      { path: "minMods", label: "minMods", kind: "number" },
+      { path: "maxMods", label: "maxMods (0 = no mods)", kind: "number" },
+      { path: "startingPrice", label: "startingPrice (USD/mo)", kind: "number", optional: true },
+      { path: "popularity", label: "popularity", kind: "number", optional: true },
+      { path: "tags", label: "tags (comma separated)", kind: "list", optional: true },
+      ...SERVER_CONFIG_FIELDS,
+    ],
+    blank: () => ({ id: "", name: "", minPlayers: 1, maxPlayers: 10, minMods: 0, maxMods: 0 }),
+  },
+  "locations.json": {
+    title: "Locations",
+    fields: [
+      { path: "id", label: "id", kind: "text" },
+      { path: "name", label: "name", kind: "text" },
+      { path: "ping", label: "ping (e.g. 24ms)", kind: "text", optional: true },
+      { path: "probeUrl", label: "probeUrl", kind: "text", optional: true },
+    ],
+    blank: () => ({ id: "", name: "" }),
+  },
+  "plans.json": {
+    title: "Plans",
+    fields: [
+      { path: "id", label: "id", kind: "text" },
+      { path: "name", label: "name", kind: "text" },
+      { path: "tier", label: "tier", kind: "tier" },
+      { path: "players", label: "players", kind: "number" },
+      { path: "backups", label: "backups", kind: "number" },
+      { path: "databases", label: "databases", kind: "number" },
+      { path: "icon", label: "icon", kind: "text", optional: true },
+      { path: "description", label: "description", kind: "text", optional: true },
+      { path: "games", label: "games (ids, empty = all)", kind: "list", optional: true },
+    ],
+    blank: () => ({ id: "", name: "", tier: "standard", players: 10, backups: 0, databases: 0 }),
+  },
+};
+
+const getPath = (entry: CatalogEntry, path: string): unknown =>
+  path.split(".").reduce<unknown>((v, key) => (typeof v === "object" && v !== null ? (v as CatalogEntry)[key] : undefined), entry);
+
+// Returns a copy with the value set, or removed when undefined; an object left
+// empty by a removal (e.g. serverConfig) is removed too
+const setPath = (entry: CatalogEntry, path: string, value: unknown): CatalogEntry => {
+  const [key, ...rest] = path.split(".");
+  const next = { ...entry };
+  if (rest.length) {
+    const child = typeof next[key] === "object" && next[key] !== null ? (next[key] as CatalogEntry) : {};
+    const updated = setPath(child, rest.join("."), value);
+    if (Object.keys(updated).length) next[key] = updated;
+    else delete next[key];
+  } else if (value === undefined) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return next;
+};
+
+const inputValue = (value: unknown, kind: FieldSpec["kind"]) => {
+  if (value === undefined || value === null) return "";
+  if (kind === "list" && Array.isArray(value)) return value.join(", ");
+  return String(value);
+};
+
+const parseInput = (raw: string, field: FieldSpec): unknown => {
+  // a required number left empty is removed so validation reports it
+  if (raw.trim() === "") return field.optional || field.kind === "number" ? undefined : "";
+  if (field.kind === "number") return Number(raw);
+  if (field.kind === "list") return raw.split(",").map((s) => s.trim()).filter(Boolean);
+  return raw;
+};
+
+const entryLabel = (entry: CatalogEntry, index: number) =>
+  (typeof entry.name === "string" && entry.name) || (typeof entry.id === "string" && entry.id) || `New entry ${index + 1}`;
+
+const show = (value: unknown) => (value === undefined ? "—" : JSON.stringify(value));
+
+const DiffList = ({ diffs }: { diffs: EntryDiff[] }) => (
+  <ul className="space-y-3 text-sm">
+    {diffs.map((d) => (
+      <li key={`${d.kind}:${d.id}`} className="rounded-lg bg-[#0f131b] border border-white/10 p-3">
+        <div className="font-semibold mb-1">
+          <span className={d.kind === "added" ? "text-green-400" : d.kind === "removed" ? "text-red-400" : "text-yellow-300"}>
+            {d.kind === "added" ? "+ added" : d.kind === "removed" ? "− removed" : "~ changed"}
+          </span>{" "}
+          {d.id}
+        </div>
+        {d.kind === "changed" ? (
+          <table className="w-full text-xs">
+            <tbody>
+              {d.changes.map((c) => (
+                <tr key={c.path} className="align-top">
+                  <td className="pr-3 py-0.5 text-white/60 whitespace-nowrap">{c.path}</td>
+                  <td className="pr-3 py-0.5 text-red-300 line-through break-all">{show(c.before)}</td>
+                  <td className="py-0.5 text-green-300 break-all">{show(c.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <pre className="text-xs text-white/70 whitespace-pre-wrap break-all">{JSON.stringify(d.entry, null, 2)}</pre>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+// canPublish is false while CATALOG_PUBLISH_TOKEN is unset: changes can be
+// reviewed but not published
+export default function CatalogAdmin({ initialCatalog, canPublish }: { initialCatalog: Catalog; canPublish: boolean }) {
+  const [published, setPublished] = useState<Catalog>(initialCatalog);
+  const [catalog, setCatalog] = useState<Catalog>(initialCatalog);
+  const [file, setFile] = useState<CatalogFile>("games.json");
+  const [selected, setSelected] = useState(0);
+  const [reviewing, setReviewing] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const problems = useMemo(() => validateCatalog(catalog), [catalog]);
+  const diffs = useMemo(
+    () => Object.fromEntries(CATALOG_FILES.map((f) => [f, diffCatalogFile(published[f], catalog[f])])) as Record<CatalogFile, EntryDiff[]>,
+    [published, catalog]
+  );
+
+  const spec = FILES[file];
+  const entries = catalog[file];
+  const entry = entries[selected] as CatalogEntry | undefined;
+  const fileProblems = problems[file] ?? [];
+
+  const updateEntries = (next: CatalogEntry[]) => {
+    setCatalog((c) => ({ ...c, [file]: next }));
+    setMessage(null);
+  };
+
+  const updateField = (field: FieldSpec, raw: string) => {
+    if (!entry) return;
+    updateEntries(entries.map((e, i) => (i === selected ? setPath(e, field.path, parseInput(raw, field)) : e)));
+  };
+
+  const addEntry = () => {
+    updateEntries([...entries, spec.blank()]);
+    setSelected(entries.length);
+  };
+
+  const removeEntry = () => {
+    updateEntries(entries.filter((_, i) => i !== selected));
+    setSelected((i) => Math.max(0, i - 1));
+  };
+
+  const switchFile = (next: CatalogFile) => {
+    setFile(next);
+    setSelected(0);
+    setReviewing(false);
+  };
+
+  const publish = async () => {
+    setPublishing(true);
+    setMessage(null);
+    try {
+      const { count } = await publishCatalog(file, entries);
+      setPublished((p) => ({ ...p, [file]: entries }));
+      setReviewing(false);
+      setMessage({ ok: true, text: `Published ${file} (${count} entries).` });
+    } catch (e) {
+      console.error(`Publishing ${file} failed:`, e);
+      setMessage({ ok: false, text: apiErrorDetail(e, `Could not publish ${file}`) });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  // diffs identify entries without an id by position, as "#<n>"
+  const changed = (e: CatalogEntry, i: number) =>
+    diffs[file].some((d) => d.kind !== "removed" && d.id === (typeof e.id === "string" && e.id ? e.id : `#${i + 1}`));
+
+  return (
+    <div>
+      {!canPublish && (
+        <p role="status" className="mb-6 rounded-xl border border-yellow-400/30 bg-yellow-500/10 p-4 text-sm text-yellow-100">
+          Publishing is disabled: set CATALOG_PUBLISH_TOKEN once the upstream API serves the pushdata handler.
+        </p>
+      )}
+      <div className="flex gap-2 mb-6" role="tablist">
+        {CATALOG_FILES.map((f) => (
+          <button
+            key={f}
+            type="button"
+            role="tab"
+            aria-selected={f === file}
+            onClick={() => switchFile(f)}
+            className={`px-4 py-2 rounded-full text-sm transition ${f === file ? "bg-gradient-to-r from-blue-500 to-cyan-400 text-white" : "bg-white/5 text-white/80 hover:bg-white/10"}`}
+          >
+            {FILES[f].title}
+            {diffs[f].length > 0 && <span className="ml-1 text-yellow-300">•</span>}
+          </button>
+        ))}
+      </div>
+
+      {reviewing ? (
+        <section className="bg-[#1a2238] rounded-2xl border border-white/10 p-6">
+          <h2 className="text-xl font-semibold mb-4">Review changes to {file}</h2>
+          <DiffList diffs={diffs[file]} />
+          <div className="mt-6 flex gap-3">
+            <button
+              type="button"
+              onClick={publish}
+              disabled={publishing || !canPublish}
+              className="bg-gradient-to-r from-blue-500 to-cyan-400 text-white px-6 py-2 rounded-lg font-semibold hover:opacity-90 disabled:opacity-50"
+            >
+              {publishing ? "Publishing…" : `Publish ${file}`}
+            </button>
+            <button type="button" onClick={() => setReviewing(false)} className="px-4 py-2 rounded-lg border border-white/20 hover:border-white/40">
+              Keep editing
+            </button>
+          </div>
+        </section>
+      ) : (
+        <div className="flex flex-col lg:flex-row gap-6">
+          <aside className="lg:w-64 shrink-0">
+            <ul className="space-y-1 mb-3">
+              {entries.map((e, i) => (
+                <li key={i}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(i)}
+                    aria-current={i === selected}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm truncate ${i === selected ? "bg-blue-600 text-white" : "bg-white/5 text-white/80 hover:bg-white/10"}`}
+                  >
+                    {entryLabel(e, i)}
+                    {changed(e, i) && <span className="ml-1 text-yellow-300">•</span>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button type="button" onClick={addEntry} className="w-full px-3 py-2 rounded-lg border border-dashed border-white/20 text-sm text-white/80 hover:border-white/40">
+              + Add entry
+            </button>
+          </aside>
+
+          <section className="flex-1 bg-[#1a2238] rounded-2xl border border-white/10 p-6">
+            {entry ? (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {spec.fields.map((field) => (
+                    <label key={field.path} className="flex flex-col gap-1 text-sm text-white/70">
+                      {field.path.startsWith("serverConfig.") ? `serverConfig.${field.label}` : field.label}
+                      {field.kind === "tier" ? (
+                        <select
+                          value={inputValue(getPath(entry, field.path), field.kind)}
+                          onChange={(e) => updateField(field, e.target.value)}
+                          className="rounded-lg bg-[#0f131b] border border-white/10 px-3 py-2 text-white"
+                        >
+                          {SERVER_TIERS.map((t) => (
+                            <option key={t.id} value={t.id}>
+                              {t.label}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type={field.kind === "number" ? "number" : "text"}
+                          step="any"
+                          value={inputValue(getPath(entry, field.path), field.kind)}
+                          onChange={(e) => updateField(field, e.target.value)}
+                          placeholder={field.optional ? "(optional)" : ""}
+                          className="rounded-lg bg-[#0f131b] border border-white/10 px-3 py-2 text-white"
+                        />
+                      )}
+                    </label>
+                  ))}
+                </div>
+                <button type="button" onClick={removeEntry} className="mt-6 text-sm text-red-300 hover:text-red-200 underline">
+                  Remove this entry
+                </button>
+              </>
+            ) : (
+              <p className="text-white/60">No entries yet.</p>
+            )}
+          </section>
+        </div>
+      )}
+
+      <div className="mt-6">
+        {fileProblems.length > 0 && (
+          <div role="alert" className="mb-4 rounded-xl border border-red-400/30 bg-red-500/10 p-4 text-sm text-red-200">
+            <p className="font-medium mb-1">Fix these before publishing:</p>
+            <ul className="list-disc pl-5 space-y-0.5">
+              {fileProblems.map((p) => (
+                <li key={p}>{p}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {message && (
+          <p role="status" className={`mb-4 text-sm ${message.ok ? "text-green-300" : "text-red-300"}`}>
+            {message.text}
+          </p>
+        )}
+        {!reviewing && (
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => setReviewing(true)}
+              disabled={diffs[file].length === 0 || fileProblems.length > 0}
+              className="bg-gradient-to-r from-blue-500 to-cyan-400 text-white px-6 py-2 rounded-lg font-semibold hover:opacity-90 disabled:opacity-50"
+            >
+              Review {diffs[file].length} change{diffs[file].length === 1 ? "" : "s"}
+            </button>
+            <button
+              type="button"
+              onClick={() => updateEntries(published[file])}
+              disabled={diffs[file].length === 0}
+              className="px-4 py-2 rounded-lg border border-white/20 hover:border-white/40 disabled:opacity-50"
+            >
+              Discard changes
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+// src/components/CompareTable.tsx
+import React, { useMemo, useState } from "react";
+import { compareHref, writeCompareList } from "../lib/compare";
+import { useCurrency } from "../lib/currency";
+import { getTranslator, localePath } from "../lib/i18n";
+import type { Locale, Translator } from "../lib/i18n";
+import type { CompareItem } from "../lib/compare";
+import { BILLING_PERIODS, buildQuote } from "../lib/pricing";
+import { configurePath } from "../lib/routes";
+import { SERVER_TIERS, sizeServer } from "../lib/sizing";
+import type { GameInfo, PlanInfo, TierId } from "../lib/types";
+import { clampPlayers, defaultModCount, modsRequired, modsSupported } from "../lib/validation";
+import CurrencySwitcher from "./CurrencySwitcher";
+
+export type CompareColumn = {
+  game: GameInfo;
+  plan?: PlanInfo; // absent => the game itself, sized for the chosen group
+};
+
+const modSupport = (game: GameInfo, t: Translator) => {
+  if (!modsSupported(game)) return t("compare.modsUnsupported");
+  if (modsRequired(game)) return t("compare.modsRequired", { min: game.minMods, max: game.maxMods });
+  return t("compare.modsUpTo", { max: game.maxMods });
+};
+
+export default function CompareTable({ columns, locale }: { columns: CompareColumn[]; locale?: Locale }) {
+  const t = getTranslator(locale);
+  const [groupSize, setGroupSize] = useState(10);
+  const [tier, setTier] = useState<TierId>("standard");
+  const { format } = useCurrency();
+
+  const sized = useMemo(
+    () =>
+      columns.map(({ game, plan }) => {
+        const players = clampPlayers(game, plan ? plan.players : groupSize);
+        const colTier = plan ? plan.tier : tier;
+        const mods = defaultModCount(game);
+        const perTier = SERVER_TIERS.map((st) =>
+          !plan || plan.tier === st.id
+            ? sizeServer({ serverConfig: game.serverConfig, players, mods, tier: st.id })
+            : null
+        );
+        const resources = sizeServer({ serverConfig: game.serverConfig, players, mods, tier: colTier });
+        const prices = BILLING_PERIODS.map(
+          (p) => buildQuote({ resources, tier: colTier, billingPeriod: p.id, mods }).totalMonthly
+        );
+        const href = localePath(
+          t.locale,
+          plan
+            ? configurePath(game, plan.id)
+            : configurePath(game, colTier, new URLSearchParams({ players: String(players) }))
+        );
+        return { game, plan, players, colTier, perTier, prices, href };
+      }),
+    [columns, groupSize, tier, t]
+  );
+
+  const remove = (index: number) => {
+    const rest: CompareItem[] = columns
+      .filter((_, i) => i !== index)
+      .map(({ game, plan }) => (plan ? { gameId: game.id, planId: plan.id } : { gameId: game.id }));
+    writeCompareList(rest);
+    window.location.href = localePath(t.locale, compareHref(rest));
+  };
+
+  const hasGameColumns = columns.some((c) => !c.plan);
+
+  return (
+    <div>
+      {hasGameColumns && (
+        <div className="flex flex-col sm:flex-row gap-6 mb-8 bg-[#1a2238] rounded-xl p-4">
+          <label className="flex-1 text-sm">
+            <span className="block text-white/70 mb-2">
+              {t("compare.groupSize")} <span className="font-bold text-white">{t("compare.players", { count: groupSize })}</span>
+            </span>
+            <input
+              type="range"
+              min={1}
+              max={200}
+              value={groupSize}
+              onChange={(e) => setGroupSize(Number(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+          </label>
+          <div className="text-sm">
+            <span className="block text-white/70 mb-2">{t("compare.priceTier")}</span>
+            <div className="inline-flex gap-2 p-1 bg-white/5 rounded-full">
+              {SERVER_TIERS.map((st) => (
+                <button
+                  key={st.id}
+                  type="button"
+                  aria-pressed={tier === st.id}
+                  onClick={() => setTier(st.id)}
+                  className={`px-3 py-1 rounded-full transition ${tier === st.id ? "bg-gradient-to-r from-blue-500 to-cyan-400 text-white shadow-lg" : "text-white/80"}`}
+                >
+                  {t(`tier.${st.id}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="mb-4 flex justify-end">
+        <CurrencySwitcher locale={locale} />
+      </div>
+      <div className="overflow-x-auto rounded-2xl border border-white/10 bg-[#0f131b]">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="border-b border-white/10">
+              <th scope="col" className="p-4 text-white/50 font-medium w-48"></th>
+              {sized.map((c, i) => (
+                <th key={`${c.game.id}:${c.plan?.id ?? ""}`} scope="col" className="p-4 align-top min-w-[180px]">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="font-bold text-base">{c.game.name}</div>
+                      <div className="text-xs text-white/60">{c.plan ? `${c.plan.name} · ${t(`tier.${c.plan.tier}`)}` : t("compare.allTiers")}</div>
+                    </div>
+                    <button type="button" onClick={() => remove(i)} aria-label={t("compare.removeColumn", { name: c.game.name })} className="text-white/50 hover:text-white">
+                      ×
+                    </button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            <tr>
+              <th scope="row" className="p-4 text-white/70 font-medium">{t("compare.rowPlayers")}</th>
+              {sized.map((c, i) => (
+                <td key={i} className="p-4">{c.game.minPlayers}–{c.game.maxPlayers}</td>
+              ))}
+            </tr>
+            <tr>
+              <th scope="row" className="p-4 text-white/70 font-medium">{t("compare.rowMods")}</th>
+              {sized.map((c, i) => (
+                <td key={i} className="p-4">{modSupport(c.game, t)}</td>
+              ))}
+            </tr>
+            <tr>
+              <th scope="row" className="p-4 text-white/70 font-medium">{t("compare.rowSizedFor")}</th>
+              {sized.map((c, i) => (
+                <td key={i} className="p-4">{t("compare.players", { count: c.players })}</td>
+              ))}
+            </tr>
+            {SERVER_TIERS.map((st, ti) => (
+              <tr key={st.id}>
+                <th scope="row" className="p-4 text-white/70 font-medium">{t("compare.rowResources", { tier: t(`tier.${st.id}`) })}</th>
+                {sized.map((c, i) => {
+                  const r = c.perTier[ti];
+                  return (
+                    <td key={i} className={`p-4 ${c.colTier === st.id ? "text-cyan-300" : ""}`}>
+                      {r ? t("compare.resources", { ram: r.ramGB, vcpu: r.vcpu, disk: r.diskGB }) : "—"}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {BILLING_PERIODS.map((p, pi) => (
+              <tr key={p.id}>
+                <th scope="row" className="p-4 text-white/70 font-medium">
+                  {t(`billing.${p.id}`)}
+                  {p.discount > 0 && <span className="ml-1 text-xs text-blue-300">−{p.discount}%</span>}
+                </th>
+                {sized.map((c, i) => (
+                  <td key={i} className="p-4 font-medium">{format(c.prices[pi])}<span className="text-xs text-white/60">{t("common.perMonthShort")}</span></td>
+                ))}
+              </tr>
+            ))}
+            <tr>
+              <th scope="row" className="p-4"></th>
+              {sized.map((c, i) => (
+                <td key={i} className="p-4">
+                  <a
+                    href={c.href}
+                    className="inline-block rounded-lg px-4 py-2 font-semibold bg-gradient-to-r from-blue-500 to-cyan-400 text-white shadow-lg hover:opacity-90"
+                  >
+                    {t("compare.configure")}
+                  </a>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+// src/components/CompareTray.tsx
+import React from "react";
+import { MAX_COMPARE, compareHref, compareKey, toggleCompareItem, useCompareList, writeCompareList } from "../lib/compare";
+import type { CompareItem } from "../lib/compare";
+import { getTranslator, localePath } from "../lib/i18n";
+import type { Locale } from "../lib/i18n";
+
+// Checkbox-style button for cards; safe to place inside a link
+export const CompareToggle: React.FC<{ item: CompareItem; locale?: Locale; className?: string }> = ({ item, locale, className = "" }) => {
+  const items = useCompareList();
+  const t = getTranslator(locale);
+  const selected = items.some((i) => compareKey(i) === compareKey(item));
+  const full = !selected && items.length >= MAX_COMPARE;
+
+  return (
+    <button
+      type="button"
+      aria-pressed={selected}
+      disabled={full}
+      title={full ? t("compare.full", { max: MAX_COMPARE }) : undefined}
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        toggleCompareItem(item);
+      }}
+      className={`rounded-full border px-3 py-1 text-xs font-medium transition-colors disabled:opacity-40 ${selected
+        ? "border-cyan-400 bg-cyan-500/20 text-cyan-200"
+        : "border-white/20 bg-black/40 text-white/80 hover:border-white/40"
+        } ${className}`}
+    >
+      {selected ? t("compare.selected") : t("compare.add")}
+    </button>
+  );
+};
+
+// Floating bar linking to the comparison page once something is selected
+export default function CompareTray({ locale }: { locale?: Locale }) {
+  const items = useCompareList();
+  const t = getTranslator(locale);
+  if (items.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 inset-x-0 z-40 flex justify-center px-4 pointer-events-none">
+      <div className="pointer-events-auto flex items-center gap-4 rounded-2xl border border-white/10 bg-[#0f131b]/95 px-5 py-3 shadow-[0_8px_30px_rgba(2,6,23,0.6)]">
+        <span className="text-sm text-white/80">
+          {t("compare.trayCount", { count: items.length, max: MAX_COMPARE })}
+        </span>
+        <button type="button" onClick={() => writeCompareList([])} className="text-sm text-white/60 hover:text-white underline">
+          {t("compare.clear")}
+        </button>
+        <a
+          href={localePath(t.locale, compareHref(items))}
+          className={`rounded-lg px-4 py-2 text-sm font-semibold bg-gradient-to-r from-blue-500 to-cyan-400 text-white shadow-lg hover:opacity-90 ${items.length < 2 ? "opacity-50 pointer-events-none" : ""}`}
+          aria-disabled={items.length < 2}
+        >
+          {t("compare.button")}
+        </a>
+      </div>
+    </div>
+  );
+}
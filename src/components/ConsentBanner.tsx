@@ -0,0 +1,32 @@
+// src/components/ConsentBanner.tsx
+import React from "react";
+import { setConsent, useConsent } from "../lib/analytics";
+import { getTranslator } from "../lib/i18n";
+import type { Locale } from "../lib/i18n";
+
+// Asks once for analytics consent; nothing is tracked until the visitor allows it
+export default function ConsentBanner({ locale }: { locale?: Locale }) {
+  const consent = useConsent();
+  const t = getTranslator(locale);
+  if (consent !== null) return null;
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-50 border-t border-white/10 bg-[#0f131b]/95 px-4 py-3 text-sm text-white/80 backdrop-blur">
+      <div className="mx-auto flex max-w-5xl flex-col items-center gap-3 sm:flex-row">
+        <p className="flex-1">{t("consent.body")}</p>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setConsent(true)}
+            className="rounded-lg bg-gradient-to-r from-blue-500 to-cyan-400 px-4 py-1.5 font-semibold text-white hover:opacity-90"
+          >
+            {t("consent.allow")}
+          </button>
+          <button type="button" onClick={() => setConsent(false)} className="rounded-lg border border-white/20 px-4 py-1.5 hover:border-white/40">
+            {t("consent.decline")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+// src/components/CurrencySwitcher.tsx
+import React from "react";
+import { useCurrency } from "../lib/currency";
+import { getTranslator } from "../lib/i18n";
+import type { Locale } from "../lib/i18n";
+
+// Currency picker; the choice is remembered and applies to every price on the site
+export default function CurrencySwitcher({ locale, className = "" }: { locale?: Locale; className?: string }) {
+  const { currency, currencies, setCurrency } = useCurrency();
+  const t = getTranslator(locale);
+  if (currencies.length < 2) return null;
+
+  return (
+    <label className={`inline-flex items-center gap-2 text-sm text-white/70 ${className}`}>
+      {t("common.currency")}
+      <select
+        value={currency.code}
+        onChange={(e) => setCurrency(e.target.value)}
+        className="rounded-lg bg-[#1a2238] border border-white/15 px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {currencies.map((c) => (
+          <option key={c.code} value={c.code}>
+            {c.code}{c.name ? ` – ${c.name}` : ""}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
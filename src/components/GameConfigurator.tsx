@@ -1,135 +1,174 @@
 // src/components/GameConfigurator.tsx
-import React, { useEffect, useMemo, useState } from "react";
-import { API_BASE } from "../lib/config";
-
-type ServerConfig = {
-  ramPerPlayer: number;
-  cpuPerPlayer: number;
-  diskPerPlayer: number;
-  minRam: number;
-  minCPU: number;
-  standard_PID: number;
-  premium_PID: number;
-  standard_RAM_CID: number;
-  premium_RAM_CID: number;
-  standard_Location_CID: number;
-  premium_Location_CID: number;
-};
-
-type GameInfo = {
-  id: string; // e.g. "minecraft"
-  name: string; // e.g. "Minecraft"
-  minPlayers: number;
-  maxPlayers: number;
-  minMods: number; // 0 => no mods required
-  maxMods: number; // 0 => mods not supported
-  image?: string;
-  serverConfig?: ServerConfig;
-};
-
-type LocationInfo = {
-  id: string;
-  name: string;
-  ping?: string;
-};
-
-type BuildLinkResponse = {
-  link?: string;
-  url?: string;
-  checkout?: string;
-};
-
-const fetchJSON = async <T,>(path: string): Promise<T> => {
-  const url = `${API_BASE}${path}`;
-  const res = await fetch(url, {
-    cache: "no-store",
-    mode: "cors",
-    credentials: "omit",
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { checkout, fetchGame, fetchGames, fetchLocations, fetchMods, fetchPromoCode } from "../lib/api";
+import { track, trackDebounced } from "../lib/analytics";
+import { describeApiError } from "../lib/apiErrors";
+import { CART_ITEM_PARAM, MAX_CART_ITEMS, readCart, saveCartItem } from "../lib/cart";
+import { describeCheckoutError } from "../lib/checkout";
+import type { CheckoutRequest } from "../lib/checkout";
+import { BASE_CURRENCY, useCurrency } from "../lib/currency";
+import { RESUME_PARAM, discardDraft, readDraft, saveDraft } from "../lib/drafts";
+import type { ConfigDraft } from "../lib/drafts";
+import { getTranslator, localePath } from "../lib/i18n";
+import type { Locale, Translator } from "../lib/i18n";
+import { measureLocations, sortByLatency } from "../lib/latency";
+import type { Latency } from "../lib/latency";
+import { BILLING_PERIODS, TIER_RATES, buildQuote, findBillingPeriod, roundCents } from "../lib/pricing";
+import type { BillingPeriodId, Quote, QuoteLineItem } from "../lib/pricing";
+import { promoIneligibility } from "../lib/promo";
+import type { PromoIneligibility } from "../lib/promo";
+import type { PromoCode } from "../lib/promo";
+import { isUndersized, recommendTier } from "../lib/recommend";
+import { hasConfigParams, readConfigParams, writeConfigParams } from "../lib/shareLink";
+import { SERVER_TIERS, isTierId, sizeServer } from "../lib/sizing";
+import type { GameInfo, LocationInfo, ModInfo, TierId } from "../lib/types";
+import { canAddMod, clampMods, clampPlayers, fieldError, modsRequired, modsSupported, validateConfig } from "../lib/validation";
+import type { ValidationField } from "../lib/validation";
+import CurrencySwitcher from "./CurrencySwitcher";
+import ModPicker from "./ModPicker";
+
+// Tier restrictions are listed with the tiers' translated names
+const promoReasonText = (reason: PromoIneligibility, t: Translator) =>
+  t(`promo.${reason.code}`, {
+    code: reason.params.code,
+    tiers: (reason.params.tiers ?? "")
+      .split(",")
+      .filter(isTierId)
+      .map((id) => t(`tier.${id}`))
+      .join(" / "),
   });
 
-  if (!res.ok) throw new Error(`Failed to fetch ${path}: ${res.status}`);
-
-  const response = await res.json();
-  const data = response.ok ? response.data : response;
-  return data;
+// Quote labels built in the visitor's language and currency
+const quoteLabel = (item: QuoteLineItem, quote: Quote, t: Translator, format: (usd: number) => string) => {
+  switch (item.id) {
+    case "ram":
+      return t("quote.ram", { size: item.quantity ?? 0, rate: format(item.unitPrice ?? 0) });
+    case "mods":
+      return t.plural("quote.mods", item.quantity ?? 0, { price: format(item.unitPrice ?? 0) });
+    case "billing":
+      return t("quote.billing", { period: t(`billing.${quote.billingPeriod}`), percent: item.percent ?? 0 });
+    case "promo":
+      return item.firstTermOnly
+        ? t("quote.promoFirstTerm", { code: item.code ?? "" })
+        : t("quote.promo", { code: item.code ?? "" });
+  }
 };
 
 export default function GameConfigurator({
   initialGameName,
-  initialPlan,
+  initialTier,
+  initialBilling,
+  initialPlayers,
+  initialGame,
+  initialLocations,
+  locale,
 }: {
   initialGameName?: string;
-  initialPlan?: string;
+  initialTier?: TierId;
+  initialBilling?: BillingPeriodId;
+  initialPlayers?: number; // clamped to the game's player range
+  // loaded by the page on the server; fetched in the browser when absent
+  initialGame?: GameInfo;
+  initialLocations?: LocationInfo[];
+  locale?: Locale;
 }) {
+  const t = getTranslator(locale);
+
   // remote data
-  const [games, setGames] = useState<GameInfo[]>([]); // will typically be length=1 now
-  const [locations, setLocations] = useState<LocationInfo[]>([]);
+  const [games, setGames] = useState<GameInfo[]>(initialGame ? [initialGame] : []); // will typically be length=1 now
+  const [locations, setLocations] = useState<LocationInfo[]>(initialLocations ?? []);
 
   // selection
-  const [gameId, setGameId] = useState<string>("");
-  const [players, setPlayers] = useState<number | "">("");
-  const [locationId, setLocationId] = useState<string>("");
+  const [gameId, setGameId] = useState<string>(initialGame?.id ?? "");
+  const [players, setPlayers] = useState<number | "">(
+    initialGame ? clampPlayers(initialGame, initialPlayers ?? initialGame.minPlayers) : ""
+  );
+  const [locationId, setLocationId] = useState<string>(initialLocations?.[0]?.id ?? "");
+  // set once the user (or a shared link) picks a location, so probing won't override it
+  const locationChosen = useRef(false);
 
-  // mods
+  // location latency
+  const [latencies, setLatencies] = useState<Record<string, Latency>>({});
+  const [probing, setProbing] = useState(false);
+
+  // mods (ids from the game's mod catalog)
   const [mods, setMods] = useState<string[]>([]);
-  const [modDraft, setModDraft] = useState("");
+  const [modCatalog, setModCatalog] = useState<ModInfo[]>([]);
+  const [modsLoading, setModsLoading] = useState(false);
+  const [modsError, setModsError] = useState<string | null>(null);
 
   // ui state
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(!(initialGame && initialLocations));
   const [err, setErr] = useState<string | null>(null);
   const [building, setBuilding] = useState(false);
+  const [linkNotices, setLinkNotices] = useState<string[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // set while editing a cart item (?cart=<id>); saving replaces that item
+  const [cartItemId, setCartItemId] = useState<string | null>(null);
+  const [cartNotice, setCartNotice] = useState<string | null>(null);
+  const [checkoutError, setCheckoutError] = useState<string | null>(null);
+  // a saved draft offered for resuming; nothing is saved while the offer is open
+  const [draftOffer, setDraftOffer] = useState<ConfigDraft | null>(null);
+  const [draftChecked, setDraftChecked] = useState(false);
+  const draftBaseline = useRef<string | null>(null);
+  // set while mods missing from the catalog are dropped, which isn't an edit
+  const modsPruned = useRef(false);
 
   // billing state
-  const pricingPlans = [
-    { name: "Monthly", price: 5.0, discount: 0, info: "" },
-    { name: "Quarterly", price: 2.7, discount: 10, info: "10% OFF" },
-    { name: "Semi-annually", price: 2.55, discount: 15, info: "15% OFF" },
-    { name: "Annually", price: 2.4, discount: 20, info: "20% OFF" },
-  ];
-  const [selectedPlan, setSelectedPlan] = useState(() => {
-    if (initialPlan && pricingPlans.some((plan) => plan.name === initialPlan)) {
-      return initialPlan;
-    }
-    return pricingPlans[0].name;
-  });
+  const [selectedPlan, setSelectedPlan] = useState<BillingPeriodId>(
+    () => findBillingPeriod(initialBilling)?.id || BILLING_PERIODS[0].id
+  );
+
+  // promo code
+  const [promoDraft, setPromoDraft] = useState("");
+  const [promo, setPromo] = useState<PromoCode | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [checkingPromo, setCheckingPromo] = useState(false);
 
   // Server tiers (performance): budget / standard / premium
-  const serverTiers = [
-    { id: "budget", label: "Budget", price: 1 },
-    { id: "standard", label: "Standard", price: 2 },
-    { id: "premium", label: "Premium", price: 3 },
-  ];
-
-  const [selectedTier, setSelectedTier] = useState<string>(() => {
-    // allow passing initialPlan as a tier id (budget|standard|premium)
-    const initial = initialPlan ? initialPlan.toLowerCase() : "";
-    if (serverTiers.some((t) => t.id === initial)) return initial;
-    return "standard";
-  });
+  const serverTiers = SERVER_TIERS;
 
-  const totalGB = 10; // example for banner
-  const recommendedPrice = 69.9; // per month
+  const [selectedTier, setSelectedTier] = useState<TierId>(() =>
+    initialTier && isTierId(initialTier) ? initialTier : "standard"
+  );
 
-  // Fetch helpers
-  const fetchLocations = async () => {
-    return await fetchJSON<LocationInfo[]>("/?handler=pulldata&file=locations.json");
-  };
+  // prices are computed in USD and shown in the visitor's currency
+  const { currency, format } = useCurrency();
 
+  // Fetch helpers
   const fetchGameByName = async (name?: string) => {
-    const q = name ? `&game=${encodeURIComponent(name)}` : "";
-    const path = `/?handler=pulldata&file=games.json${q}`;
-    const resp = await fetchJSON<GameInfo | GameInfo[]>(path);
-    if (Array.isArray(resp)) return resp;
-    return [resp];
+    if (!name) return await fetchGames();
+    const game = await fetchGame(name);
+    return game ? [game] : [];
   };
 
-  const dynamicPrice = useMemo(() => {
-    const tier = serverTiers.find(t => t.id === selectedTier);
-    return tier ? tier.price : 0;
-  }, [selectedTier, serverTiers]);
+  // a shared link (or a resumed draft) overrides the defaults, clamped to the game's limits
+  const applyConfigParams = (params: URLSearchParams, game: GameInfo, locs: LocationInfo[]) => {
+    const { config, notices } = readConfigParams(params, game, locs);
+    if (config.players !== undefined) setPlayers(config.players);
+    if (config.locationId) {
+      setLocationId(config.locationId);
+      locationChosen.current = true;
+    }
+    if (config.tier) setSelectedTier(config.tier);
+    if (config.billingPeriod) setSelectedPlan(config.billingPeriod);
+    if (config.mods) setMods(config.mods);
+    setLinkNotices(notices.map((n) => t(`link.${n.code}`, n.params)));
+  };
 
   // load game (single) + locations on mount or when initialGameName changes
   useEffect(() => {
+    const applyLinkParams = (game: GameInfo, locs: LocationInfo[]) => {
+      const params = new URLSearchParams(window.location.search);
+      applyConfigParams(params, game, locs);
+      checkDraft(params, game, locs);
+    };
+
+    if (initialGame && initialLocations) {
+      applyLinkParams(initialGame, initialLocations);
+      return;
+    }
+
     (async () => {
       setLoading(true);
       try {
@@ -138,13 +177,12 @@ export default function GameConfigurator({
           fetchGameByName(initialGameName),
         ]);
 
-        if (!Array.isArray(locs)) throw new Error("Locations data is not an array");
-
-        // normalize game response and ensure we at least have one game
-        const normalizedGames = Array.isArray(g) ? g : g ? [g] : [];
+        // ensure we at least have one game
+        const normalizedGames = g;
 
         if (normalizedGames.length === 0) {
-          throw new Error("Requested game not found from API");
+          setErr(initialGameName ? t("errors.gameNotFound", { game: initialGameName }) : t("common.noGameData"));
+          return;
         }
 
         setGames(normalizedGames);
@@ -157,12 +195,15 @@ export default function GameConfigurator({
         const defaultLocation = locs[0]?.id || "";
         setLocationId(defaultLocation);
 
-        // set players default based on game minPlayers
-        setPlayers(normalizedGames[0].minPlayers);
+        // set players default based on the plan, or the game's minPlayers
+        const first = normalizedGames[0];
+        setPlayers(clampPlayers(first, initialPlayers ?? first.minPlayers));
         setMods([]);
-        setModDraft("");
-      } catch (e: any) {
-        setErr(e.message || "Failed to load data");
+
+        applyLinkParams(first, locs);
+      } catch (e) {
+        console.error("Failed to load configurator data:", e);
+        setErr(describeApiError(e, t, t("errors.loadData")));
       } finally {
         setLoading(false);
       }
@@ -170,6 +211,34 @@ export default function GameConfigurator({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [initialGameName]);
 
+  // measure latency to each region and preselect the fastest one
+  useEffect(() => {
+    if (locations.length === 0) return;
+    let cancelled = false;
+    setProbing(true);
+    measureLocations(locations)
+      .then((result) => {
+        if (cancelled) return;
+        setLatencies(result);
+        const fastest = sortByLatency(locations, result)[0];
+        if (!locationChosen.current && fastest && result[fastest.id]) setLocationId(fastest.id);
+      })
+      .finally(() => {
+        if (!cancelled) setProbing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [locations]);
+
+  const sortedLocations = useMemo(() => sortByLatency(locations, latencies), [locations, latencies]);
+
+  const latencyLabel = (id: string) => {
+    const l = latencies[id];
+    if (l) return l.source === "live" ? `${l.ms} ms` : `~${l.ms} ms`;
+    return probing ? t("cfg.measuring") : "";
+  };
+
   const currentGame = useMemo(
     () => games.find((g) => g.id === gameId) || games[0] || null,
     [games, gameId]
@@ -180,163 +249,327 @@ export default function GameConfigurator({
     if (!currentGame) return;
 
     const p = typeof players === "number" ? players : currentGame.minPlayers;
-    const bounded = Math.max(currentGame.minPlayers, Math.min(currentGame.maxPlayers, p));
-    setPlayers(bounded);
-
-    if (currentGame.maxMods === 0) {
-      setMods([]);
-      setModDraft("");
-    } else if (mods.length > currentGame.maxMods) {
-      setMods(mods.slice(0, currentGame.maxMods));
-    }
+    setPlayers(clampPlayers(currentGame, p));
+
+    const kept = clampMods(currentGame, mods);
+    if (kept.length < mods.length) setMods(kept);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [gameId]);
 
-  const modsSupported = (currentGame?.maxMods ?? 0) > 0;
-  const modsRequired = (currentGame?.minMods ?? 0) > 0;
-
-  // form validation
-  const canSubmit = useMemo(() => {
-    if (!currentGame) return false;
-    if (!gameId || !locationId) return false;
-    if (players === "" || typeof players !== "number") return false;
-    if (players < currentGame.minPlayers || players > currentGame.maxPlayers) return false;
-
-    if (modsSupported) {
-      if (mods.length < currentGame.minMods) return false;
-      if (mods.length > currentGame.maxMods) return false;
-    } else if (mods.length > 0) {
-      return false;
+  // load the mod catalog for games that support mods
+  useEffect(() => {
+    if (!currentGame || !modsSupported(currentGame)) {
+      setModCatalog([]);
+      return;
     }
+    let cancelled = false;
+    (async () => {
+      setModsLoading(true);
+      setModsError(null);
+      try {
+        const catalog = await fetchMods(currentGame.id);
+        if (cancelled) return;
+        setModCatalog(catalog);
+
+        // drop mods (e.g. from a shared link) that are not in this game's catalog
+        const unknown = mods.filter((id) => !catalog.some((m) => m.id === id));
+        if (unknown.length) {
+          modsPruned.current = true;
+          setMods((prev) => prev.filter((id) => !unknown.includes(id)));
+          setLinkNotices((prev) => [...prev, t("cfg.removedMods", { game: currentGame.name, mods: unknown.join(", ") })]);
+        }
+      } catch (e) {
+        console.error("Failed to load mod catalog:", e);
+        if (!cancelled) setModsError(describeApiError(e, t, t("errors.modCatalog")));
+      } finally {
+        if (!cancelled) setModsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentGame]);
+
+  // keep the address bar in sync so the current configuration can be shared
+  useEffect(() => {
+    if (!currentGame || typeof players !== "number" || !locationId) return;
+    const url = new URL(window.location.href);
+    writeConfigParams(url.searchParams, {
+      players,
+      locationId,
+      tier: selectedTier,
+      billingPeriod: selectedPlan,
+      mods,
+    });
+    window.history.replaceState(window.history.state, "", url);
+  }, [currentGame, players, locationId, selectedTier, selectedPlan, mods]);
+
+  const copyLink = async () => {
+    const url = window.location.href;
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // clipboard API unavailable (e.g. insecure context): let the user copy by hand
+      window.prompt(t("cfg.copyPrompt"), url);
+    }
+  };
 
-    return true;
-  }, [currentGame, gameId, locationId, players, mods, modsSupported]);
+  // live resource allocation for the summary panel
+  const resources = useMemo(() => {
+    if (!currentGame) return null;
+    return sizeServer({
+      serverConfig: currentGame.serverConfig,
+      players: typeof players === "number" ? players : currentGame.minPlayers,
+      mods: mods.length,
+      tier: selectedTier,
+    });
+  }, [currentGame, players, mods.length, selectedTier]);
 
-  // mod handlers
-  const addMod = () => {
+  // tier suggested for this group size and mod count; compared with the chosen tier
+  const recommendation = useMemo(() => {
+    if (!currentGame) return null;
+    const p = typeof players === "number" ? players : currentGame.minPlayers;
+    return recommendTier(currentGame, p, mods.length);
+  }, [currentGame, players, mods.length]);
+  const undersized = !!(resources && recommendation && isUndersized(resources, recommendation));
+
+  // a code applied earlier can stop qualifying when the tier changes
+  const promoWarning = useMemo(() => {
+    if (!promo || !currentGame) return null;
+    const reason = promoIneligibility(promo, { gameId: currentGame.id, tier: selectedTier });
+    return reason && promoReasonText(reason, t);
+  }, [promo, currentGame, selectedTier, t]);
+
+  const activePromo = promo && !promoWarning ? promo : null;
+
+  const quote = useMemo(() => {
+    if (!resources) return null;
+    return buildQuote({
+      resources,
+      tier: selectedTier,
+      billingPeriod: selectedPlan,
+      mods: mods.length,
+      promo: activePromo,
+    });
+  }, [resources, selectedTier, selectedPlan, mods.length, activePromo]);
+
+  const applyPromo = async () => {
     if (!currentGame) return;
-    const name = modDraft.trim();
-    if (!name) return;
-    if (mods.includes(name)) return;
-    if (mods.length >= currentGame.maxMods) return;
-    setMods((prev) => [...prev, name]);
-    setModDraft("");
+    const code = promoDraft.trim();
+    if (!code) return;
+    setCheckingPromo(true);
+    setPromoError(null);
+    try {
+      const found = await fetchPromoCode({ code, gameId: currentGame.id, tier: selectedTier });
+      const reason = promoIneligibility(found, { gameId: currentGame.id, tier: selectedTier });
+      if (reason) {
+        setPromoError(promoReasonText(reason, t));
+        return;
+      }
+      setPromo(found);
+      setPromoDraft("");
+    } catch (e) {
+      setPromoError(describeApiError(e, t, t("errors.promoInvalid")));
+    } finally {
+      setCheckingPromo(false);
+    }
+  };
+
+  const removePromo = () => {
+    setPromo(null);
+    setPromoError(null);
   };
 
-  const removeMod = (index: number) => {
-    setMods((prev) => prev.filter((_, i) => i !== index));
+  // Looks a saved promo code up again so it is re-checked against the current
+  // catalog; one that no longer applies is left in the input
+  const restorePromo = (game: GameInfo, code: string, tier: TierId) => {
+    fetchPromoCode({ code, gameId: game.id, tier })
+      .then((found) => {
+        if (promoIneligibility(found, { gameId: game.id, tier })) setPromoDraft(code);
+        else setPromo(found);
+      })
+      .catch(() => setPromoDraft(code));
   };
 
-  // Log selected configuration to console whenever it changes
+  // editing a cart item: the link carries its configuration
   useEffect(() => {
-    if (currentGame && locationId) {
-      const config = {
-        game: currentGame.name,
-        gameId: currentGame.id,
-        players: players,
-        location: locations.find((loc) => loc.id === locationId)?.name,
-        locationId,
-        mods: mods.length,
-        modList: mods,
-        billingPlan: selectedPlan,
-        serverConfig: currentGame.serverConfig,
-      };
-      console.log("Selected Configuration:", config);
-    }
-  }, [currentGame, players, locationId, mods, selectedPlan, locations]);
+    if (!currentGame) return;
+    const id = new URLSearchParams(window.location.search).get(CART_ITEM_PARAM);
+    const item = id ? readCart().find((i) => i.id === id) : undefined;
+    if (!item || item.config.gameId !== currentGame.id) return;
+    setCartItemId(item.id);
+    if (item.config.promoCode) restorePromo(currentGame, item.config.promoCode, item.config.tier);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentGame?.id]);
+
+  // drafts: a link without a configuration offers the saved one, ?resume restores it
+  const resumeDraft = (draft: ConfigDraft, game: GameInfo, locs: LocationInfo[]) => {
+    const params = new URLSearchParams();
+    writeConfigParams(params, draft);
+    applyConfigParams(params, game, locs);
+    if (draft.promoCode) restorePromo(game, draft.promoCode, draft.tier);
+    setDraftOffer(null);
+  };
 
-  // checkout
-  const buildAndRedirect = async () => {
-    if (!currentGame) {
-      alert("Please select a game");
-      return;
+  const checkDraft = (params: URLSearchParams, game: GameInfo, locs: LocationInfo[]) => {
+    setDraftChecked(true);
+    if (params.has(CART_ITEM_PARAM)) return; // editing a cart item, not a draft
+    const draft = readDraft(game.id);
+    if (!draft) return;
+    if (params.has(RESUME_PARAM)) {
+      resumeDraft(draft, game, locs);
+      const url = new URL(window.location.href);
+      url.searchParams.delete(RESUME_PARAM);
+      window.history.replaceState(window.history.state, "", url);
+    } else if (!hasConfigParams(params)) {
+      setDraftOffer(draft);
     }
+  };
 
-    if (!players || typeof players !== "number") {
-      alert("Please select the number of players");
-      return;
-    }
+  const startFresh = () => {
+    if (currentGame) discardDraft(currentGame.id);
+    setDraftOffer(null);
+  };
 
-    if (players < currentGame.minPlayers || players > currentGame.maxPlayers) {
-      alert(`Players must be between ${currentGame.minPlayers} and ${currentGame.maxPlayers}`);
-      return;
+  // save the selection once the visitor changes something; the location only
+  // counts once picked by hand, not when latency probing preselects it
+  useEffect(() => {
+    if (!draftChecked || draftOffer || !currentGame || typeof players !== "number" || !locationId) return;
+    const key = JSON.stringify([players, locationChosen.current && locationId, selectedTier, selectedPlan, mods, activePromo?.code]);
+    if (draftBaseline.current === null || modsPruned.current) {
+      modsPruned.current = false;
+      draftBaseline.current = key;
     }
+    if (key === draftBaseline.current) return;
+    saveDraft({
+      gameId: currentGame.id,
+      gameName: currentGame.name,
+      players,
+      locationId,
+      tier: selectedTier,
+      billingPeriod: selectedPlan,
+      mods,
+      promoCode: activePromo?.code,
+    });
+  }, [draftChecked, draftOffer, currentGame, players, locationId, selectedTier, selectedPlan, mods, activePromo]);
+
+  const showMods = !!currentGame && modsSupported(currentGame);
+  const requireMods = !!currentGame && modsRequired(currentGame);
+
+  // form validation; mod ids are only checked once the catalog has loaded
+  const validationErrors = useMemo(
+    () =>
+      validateConfig(
+        { players, locationId, mods },
+        currentGame,
+        locations,
+        modsLoading || modsError ? undefined : modCatalog
+      ),
+    [currentGame, players, locationId, mods, locations, modCatalog, modsLoading, modsError]
+  );
+  const canSubmit = validationErrors.length === 0;
+  const errorText = (field: ValidationField) => {
+    const e = fieldError(validationErrors, field);
+    return e ? t(`validation.${e.code}`, e.params) : null;
+  };
 
-    if (!locationId) {
-      alert("Please select a location");
-      return;
-    }
+  // mod handlers
+  const addMod = (id: string) => {
+    if (!currentGame) return;
+    if (mods.includes(id)) return;
+    if (!canAddMod(currentGame, mods)) return;
+    setMods((prev) => [...prev, id]);
+  };
 
-    if (modsSupported) {
-      if (mods.length < currentGame.minMods) {
-        alert(`Minimum ${currentGame.minMods} mods required`);
-        return;
-      }
-      if (mods.length > currentGame.maxMods) {
-        alert(`Maximum ${currentGame.maxMods} mods allowed`);
-        return;
-      }
-    }
+  const removeMod = (id: string) => {
+    setMods((prev) => prev.filter((m) => m !== id));
+  };
 
-    const finalConfig = {
-      game: currentGame.name,
+  // report the configuration once the visitor stops adjusting it; the one the
+  // page loaded with (defaults, link or draft, probed location) isn't a change
+  const trackedBaseline = useRef<string | null>(null);
+  useEffect(() => {
+    if (!draftChecked || !currentGame || typeof players !== "number" || !locationId) return;
+    const key = JSON.stringify([players, locationChosen.current && locationId, selectedTier, selectedPlan, mods, activePromo?.code]);
+    if (trackedBaseline.current === null) trackedBaseline.current = key;
+    if (key === trackedBaseline.current) return;
+    trackDebounced(`config:${currentGame.id}`, {
+      name: "config_changed",
       gameId: currentGame.id,
       players,
-      location: locations.find((loc) => loc.id === locationId)?.name,
       locationId,
+      tier: selectedTier,
+      billingPeriod: selectedPlan,
       mods: mods.length,
-      modList: mods,
-      billingPlan: selectedPlan,
-      serverConfig: currentGame.serverConfig,
+      promoCode: activePromo?.code,
+    });
+  }, [draftChecked, currentGame, players, locationId, selectedTier, selectedPlan, mods, activePromo]);
+
+  // The server to order, or null while the form has errors
+  const checkedRequest = (): Omit<CheckoutRequest, "currency"> | null => {
+    if (!currentGame || !canSubmit || typeof players !== "number") return null;
+    return {
+      gameId: currentGame.id,
+      players,
+      locationId,
+      tier: selectedTier,
+      billingPeriod: selectedPlan,
+      mods,
+      promoCode: activePromo?.code,
     };
+  };
 
-    console.log("Final Configuration for Checkout:", finalConfig);
+  // checkout
+  const buildAndRedirect = async () => {
+    const config = checkedRequest();
+    if (!config) return;
 
     try {
       setBuilding(true);
-      const params = new URLSearchParams({
-        handler: "buildlink",
-        game: currentGame.name,
-        players: String(players),
-        location: locationId,
-        mods: String(mods.length),
-      });
-
-      const apiUrl = `https://api.aleforge.net/?${params}`;
-      console.log("Calling API:", apiUrl);
-
-      const res = await fetch(apiUrl, {
-        cache: "no-store",
-        mode: "cors",
-        credentials: "omit",
-      });
-
-      if (!res.ok) throw new Error(`buildlink failed: ${res.status}`);
-
-      const response = await res.json();
-      const data = response.ok ? response.data : response;
+      setCheckoutError(null);
+      const request = { ...config, currency: currency.code };
+      track({ name: "checkout_started", gameIds: [config.gameId], currency: currency.code, totalMonthly: quote?.totalMonthly ?? 0 });
 
-      console.log("API Response:", data);
+      // limits and price are checked again on the worker before a cart link is issued
+      const { cartLink } = await checkout(request);
 
-      const redirectUrl = data.link || data.url || data || null;
-
-      if (!redirectUrl) throw new Error("No checkout link returned.");
-
-      // The API appears to return nested object; defensive access:
-      const cartLink = redirectUrl['cart-link'] || redirectUrl['cart_link'] || (typeof redirectUrl === "string" ? redirectUrl : null);
-
-      if (!cartLink) throw new Error("No cart link found on API response.");
-
-      console.log("Redirecting to:", cartLink);
+      discardDraft(config.gameId);
       window.location.href = cartLink;
-    } catch (e: any) {
+    } catch (e) {
       console.error("Checkout error:", e);
-      alert(e.message || "Failed to generate checkout link");
+      const message = describeCheckoutError(e, t);
+      track({ name: "checkout_failed", gameIds: [config.gameId], error: message });
+      setCheckoutError(message);
     } finally {
       setBuilding(false);
     }
   };
 
+  // cart: adds this server, or saves over the item being edited
+  const addToCart = () => {
+    const config = checkedRequest();
+    if (!config || !currentGame || !quote) return;
+    const id = saveCartItem(
+      {
+        config,
+        gameName: currentGame.name,
+        locationName: locations.find((l) => l.id === config.locationId)?.name ?? "",
+        quote,
+      },
+      cartItemId ?? undefined
+    );
+    if (!id) {
+      setCartNotice(t("cart.full", { max: MAX_CART_ITEMS }));
+      return;
+    }
+    setCartNotice(cartItemId ? t("cart.updated") : t("cart.added"));
+    setCartItemId(id);
+    discardDraft(config.gameId);
+  };
+
   // UI rendering
   if (loading)
     return (
@@ -354,7 +587,7 @@ export default function GameConfigurator({
   if (!currentGame)
     return (
       <div className="text-center py-10 text-gray-500 bg-gradient-to-b from-[#07101a] to-[#0b1220]">
-        No game data available.
+        {t("common.noGameData")}
       </div>
     );
 
@@ -363,18 +596,59 @@ export default function GameConfigurator({
       <div className="max-w-7xl mx-auto">
         {/* Header */}
         <div className="text-center mb-12">
-          <h1 className="text-3xl md:text-4xl font-bold text-white mb-4">Build Your Perfect Game Server</h1>
-          <p className="text-xl text-gray-300 max-w-3xl mx-auto">Configure your server settings to match your gaming needs</p>
+          <h1 className="text-3xl md:text-4xl font-bold text-white mb-4">{t("cfg.title")}</h1>
+          <p className="text-xl text-gray-300 max-w-3xl mx-auto">{t("cfg.subtitle")}</p>
         </div>
 
         <div className="flex flex-col lg:flex-row gap-8">
           {/* Main Config Panel */}
           <div className="flex-1 bg-[#0f131b] rounded-2xl border border-white/10 p-6 shadow-[0_8px_30px_rgba(2,6,23,0.6)]">
+            {draftOffer && (
+              <div role="status" className="mb-6 rounded-xl border border-cyan-400/30 bg-cyan-500/10 p-4 text-sm text-cyan-100">
+                <p className="font-medium mb-1">{t("draft.heading")}</p>
+                <p className="text-cyan-100/80">
+                  {t("draft.body", {
+                    tier: t(`tier.${draftOffer.tier}`),
+                    players: draftOffer.players,
+                    date: new Date(draftOffer.savedAt).toLocaleString(t.locale, { dateStyle: "medium", timeStyle: "short" }),
+                  })}
+                </p>
+                <div className="mt-3 flex gap-3">
+                  <button
+                    type="button"
+                    onClick={() => resumeDraft(draftOffer, currentGame, locations)}
+                    className="rounded-lg bg-gradient-to-r from-blue-500 to-cyan-400 px-4 py-1.5 font-semibold text-white hover:opacity-90"
+                  >
+                    {t("draft.resume")}
+                  </button>
+                  <button type="button" onClick={startFresh} className="text-cyan-100/70 underline hover:text-cyan-50">
+                    {t("draft.startFresh")}
+                  </button>
+                </div>
+              </div>
+            )}
+            {linkNotices.length > 0 && (
+              <div role="status" className="mb-6 rounded-xl border border-yellow-400/30 bg-yellow-500/10 p-4 text-sm text-yellow-200">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="font-medium mb-1">{t("cfg.linkAdjusted")}</p>
+                    <ul className="list-disc pl-5 space-y-0.5">
+                      {linkNotices.map((n) => (
+                        <li key={n}>{n}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <button type="button" onClick={() => setLinkNotices([])} aria-label={t("common.dismiss")} className="text-yellow-200/70 hover:text-yellow-100">
+                    ×
+                  </button>
+                </div>
+              </div>
+            )}
             {/* Step 1: Game (single) */}
             <div className="mb-8">
               <div className="flex items-center gap-3 mb-4">
                 <span className="rounded-full bg-gradient-to-r from-blue-500 to-cyan-400 text-white w-8 h-8 flex items-center justify-center font-bold text-sm">1</span>
-                <h2 className="text-xl font-semibold">Game</h2>
+                <h2 className="text-xl font-semibold">{t("cfg.stepGame")}</h2>
               </div>
 
               <div className="bg-[#1a2238] rounded-xl p-4 mb-4 flex items-center gap-4">
@@ -382,12 +656,12 @@ export default function GameConfigurator({
                   {currentGame.image ? (
                     <img src={currentGame.image} alt={currentGame.name} className="w-full h-full object-cover rounded-lg" />
                   ) : (
-                    <span className="text-white/40 text-xs">Game</span>
+                    <span className="text-white/40 text-xs">{t("cfg.gameImage")}</span>
                   )}
                 </div>
                 <div className="flex-1">
                   <h3 className="font-bold text-lg">{currentGame.name}</h3>
-                  <p className="text-sm text-white/60">{currentGame.minPlayers}-{currentGame.maxPlayers} players</p>
+                  <p className="text-sm text-white/60">{t("cfg.playerRange", { min: currentGame.minPlayers, max: currentGame.maxPlayers })}</p>
                 </div>
               </div>
             </div>
@@ -396,7 +670,7 @@ export default function GameConfigurator({
             <div className="mb-8">
               <div className="flex items-center gap-3 mb-4">
                 <span className="rounded-full bg-gradient-to-r from-blue-500 to-cyan-400 text-white w-8 h-8 flex items-center justify-center font-bold text-sm">2</span>
-                <h2 className="text-xl font-semibold">Players</h2>
+                <h2 className="text-xl font-semibold">{t("cfg.stepPlayers")}</h2>
               </div>
               <div className="bg-[#1a2238] rounded-xl p-4">
                 <div className="flex flex-col sm:flex-row gap-4 items-center mb-2">
@@ -407,10 +681,18 @@ export default function GameConfigurator({
                     min={currentGame?.minPlayers}
                     max={currentGame?.maxPlayers}
                     onChange={(e) => setPlayers(Number(e.target.value))}
+                    aria-label={t("cfg.stepPlayers")}
+                    aria-invalid={!!errorText("players")}
+                    aria-describedby={errorText("players") ? "players-error" : undefined}
                   />
                   <span className="font-bold text-lg w-12 text-center sm:text-left">{players}</span>
                 </div>
-                <p className="text-xs text-white/60">Allowed range: {currentGame?.minPlayers}–{currentGame?.maxPlayers}</p>
+                <p className="text-xs text-white/60">{t("cfg.allowedRange", { min: currentGame.minPlayers, max: currentGame.maxPlayers })}</p>
+                {errorText("players") && (
+                  <p id="players-error" className="mt-2 text-sm text-red-300">
+                    {errorText("players")}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -418,20 +700,29 @@ export default function GameConfigurator({
             <div className="mb-8">
               <div className="flex items-center gap-3 mb-4">
                 <span className="rounded-full bg-gradient-to-r from-blue-500 to-cyan-400 text-white w-8 h-8 flex items-center justify-center font-bold text-sm">3</span>
-                <h2 className="text-xl font-semibold">Choose a Location</h2>
+                <h2 className="text-xl font-semibold">{t("cfg.stepLocation")}</h2>
               </div>
               <div className="bg-[#1a2238] rounded-xl p-4">
                 <div className="relative">
                   <select
                     value={locationId}
-                    onChange={(e) => setLocationId(e.target.value)}
+                    onChange={(e) => {
+                      locationChosen.current = true;
+                      setLocationId(e.target.value);
+                    }}
+                    aria-label={t("cfg.stepLocation")}
+                    aria-invalid={!!errorText("locationId")}
+                    aria-describedby={errorText("locationId") ? "location-error" : undefined}
                     className="w-full rounded-lg bg-[#0f131b] border border-white/10 px-3 py-3 text-white appearance-none focus:outline-none focus:ring-1 focus:ring-blue-500"
                   >
-                    {locations.map((loc) => (
-                      <option key={loc.id} value={loc.id}>
-                        {loc.name}
-                      </option>
-                    ))}
+                    {sortedLocations.map((loc) => {
+                      const latency = latencyLabel(loc.id);
+                      return (
+                        <option key={loc.id} value={loc.id}>
+                          {latency ? `${loc.name} — ${latency}` : loc.name}
+                        </option>
+                      );
+                    })}
                   </select>
                   <div className="absolute inset-y-0 right-0 flex items-center px-2 pointer-events-none">
                     <svg className="w-4 h-4 text-white/60" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -440,7 +731,23 @@ export default function GameConfigurator({
                   </div>
                 </div>
                 {locations.find((loc) => loc.id === locationId) && (
-                  <div className="mt-2 text-sm text-white/60">Selected: {locations.find((loc) => loc.id === locationId)?.name}</div>
+                  <div className="mt-2 text-sm text-white/60 flex flex-wrap items-center gap-2">
+                    <span>{t("cfg.selectedLocation", { name: locations.find((loc) => loc.id === locationId)?.name ?? "" })}</span>
+                    {latencies[locationId] && <span>({latencyLabel(locationId)})</span>}
+                    {latencies[locationId] && sortedLocations[0]?.id === locationId && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-cyan-500/20 text-cyan-300 border border-cyan-300/20">
+                        {t("cfg.lowestLatency")}
+                      </span>
+                    )}
+                  </div>
+                )}
+                <p className="mt-1 text-xs text-white/40">
+                  {probing ? t("cfg.probing") : t("cfg.probeNote")}
+                </p>
+                {errorText("locationId") && (
+                  <p id="location-error" className="mt-2 text-sm text-red-300">
+                    {errorText("locationId")}
+                  </p>
                 )}
               </div>
             </div>
@@ -449,66 +756,60 @@ export default function GameConfigurator({
             <div className="mb-8">
               <div className="flex items-center gap-3 mb-4">
                 <span className="rounded-full bg-gradient-to-r from-blue-500 to-cyan-400 text-white w-8 h-8 flex items-center justify-center font-bold text-sm">4</span>
-                <h2 className="text-xl font-semibold">Choose Your Server Tier</h2>
+                <h2 className="text-xl font-semibold">{t("cfg.stepTier")}</h2>
               </div>
 
               <div className="bg-[#1a2238] rounded-xl p-4">
-                <p className="text-sm text-white/60 mb-4">Choose the performance level that best fits your gameplay needs and budget.</p>
+                <p className="text-sm text-white/60 mb-4">{t("cfg.tierIntro")}</p>
 
                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-                  {serverTiers.map((t) => {
-                    const active = selectedTier === t.id;
+                  {serverTiers.map((tier) => {
+                    const active = selectedTier === tier.id;
                     return (
                       <button
-                        key={t.id}
-                        onClick={() => setSelectedTier(t.id)}
+                        key={tier.id}
+                        onClick={() => setSelectedTier(tier.id)}
                         aria-pressed={active}
                         className={`flex flex-col items-center rounded-lg px-4 py-3 text-center transition-all border-2 focus:outline-none ${active
                           ? "border-blue-500 bg-gradient-to-r from-blue-600 to-cyan-500 text-white shadow-lg"
                           : "border-white/10 bg-[#0f131b] text-white/80 hover:border-white/20"
                           }`}
                       >
-                        <div className="font-semibold">{t.label}</div>
+                        <div className="font-semibold">{t(`tier.${tier.id}`)}</div>
                       </button>
                     );
                   })}
                 </div>
-                <div className="mt-2 text-xs text-white/60">Selected tier: <span className="font-medium">{selectedTier}</span></div>
+                <div className="mt-2 text-xs text-white/60">{t("cfg.selectedTier")} <span className="font-medium">{t(`tier.${selectedTier}`)}</span></div>
               </div>
             </div>
 
             {/* Mods Section */}
-            {modsSupported && (
+            {showMods && (
               <div className="mb-8">
                 <div className="flex items-center gap-3 mb-4">
                   <span className="rounded-full bg-gradient-to-r from-blue-500 to-cyan-400 text-white w-8 h-8 flex items-center justify-center font-bold text-sm">4</span>
-                  <h2 className="text-xl font-semibold">Mods</h2>
-                  {modsRequired && <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/20 text-red-300 border border-red-300/20">Required</span>}
+                  <h2 className="text-xl font-semibold">{t("cfg.stepMods")}</h2>
+                  {requireMods && <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/20 text-red-300 border border-red-300/20">{t("cfg.required")}</span>}
                 </div>
                 <div className="bg-[#1a2238] rounded-xl p-4">
-                  <div className="flex flex-col sm:flex-row gap-4 items-center">
-                    <input
-                      type="range"
-                      className="flex-1 accent-blue-500 w-full"
-                      value={mods.length}
-                      min={currentGame?.minMods || 0}
-                      max={currentGame?.maxMods || 10}
-                      onChange={(e) => {
-                        const newCount = Number(e.target.value);
-                        if (newCount < mods.length) {
-                          setMods((prev) => prev.slice(0, newCount));
-                        } else if (newCount > mods.length) {
-                          const newMods = [...mods];
-                          for (let i = mods.length; i < newCount; i++) {
-                            newMods.push(`mod${i + 1}`);
-                          }
-                          setMods(newMods);
-                        }
-                      }}
-                    />
-                    <span className="font-bold text-lg w-12 text-center sm:text-left">{mods.length}</span>
-                  </div>
-                  <p className="text-xs text-white/60 mt-2">Mods: {currentGame?.minMods || 0}–{currentGame?.maxMods || 10}</p>
+                  <ModPicker
+                    catalog={modCatalog}
+                    selected={mods}
+                    minMods={currentGame.minMods}
+                    maxMods={currentGame.maxMods}
+                    loading={modsLoading}
+                    error={modsError}
+                    onAdd={addMod}
+                    onRemove={removeMod}
+                    errorId={errorText("mods") ? "mods-error" : undefined}
+                    locale={locale}
+                  />
+                  {errorText("mods") && (
+                    <p id="mods-error" className="mt-2 text-sm text-red-300">
+                      {errorText("mods")}
+                    </p>
+                  )}
                 </div>
               </div>
             )}
@@ -517,26 +818,55 @@ export default function GameConfigurator({
             <div className="mb-8">
               <div className="flex items-center gap-3 mb-4">
                 <span className="rounded-full bg-gradient-to-r from-blue-500 to-cyan-400 text-white w-8 h-8 flex items-center justify-center font-bold text-sm">5</span>
-                <h2 className="text-xl font-semibold">Billing Options</h2>
+                <h2 className="text-xl font-semibold">{t("cfg.stepBilling")}</h2>
               </div>
               <div className="bg-[#1a2238] rounded-xl p-4">
                 <div className="grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 md:grid-cols-4 gap-3 mb-4">
-                  {pricingPlans.map((p) => (
+                  {BILLING_PERIODS.map((p) => (
                     <button
-                      key={p.name}
-                      className={`rounded-lg border p-3 text-left transition-all ${selectedPlan === p.name ? "border-blue-500 bg-blue-500/10 shadow-lg" : "border-white/10 bg-[#0f131b] hover:border-white/20"}`}
-                      onClick={() => setSelectedPlan(p.name)}
+                      key={p.id}
+                      className={`rounded-lg border p-3 text-left transition-all ${selectedPlan === p.id ? "border-blue-500 bg-blue-500/10 shadow-lg" : "border-white/10 bg-[#0f131b] hover:border-white/20"}`}
+                      onClick={() => setSelectedPlan(p.id)}
                     >
-                      <div className="font-medium">{p.name}</div>
-                      <div className="text-sm mt-1">${p.price.toFixed(2)}/GB</div>
-                      {!!p.discount && <div className="text-xs text-blue-300 mt-1">{p.info}</div>}
+                      <div className="font-medium">{t(`billing.${p.id}`)}</div>
+                      <div className="text-sm mt-1">{t("cfg.perGB", { price: format(roundCents(TIER_RATES[selectedTier] * (1 - p.discount / 100))) })}</div>
+                      {!!p.discount && <div className="text-xs text-blue-300 mt-1">{t("cfg.percentOff", { percent: p.discount })}</div>}
                     </button>
                   ))}
                 </div>
-                <div className="relative">
-                  <input type="text" placeholder="Enter promo code..." className="w-full rounded-lg bg-[#0f131b] border border-white/10 px-3 py-2 sm:py-3 text-white placeholder-white/40 focus:outline-none focus:ring-1 focus:ring-blue-500" />
-                  <button className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-gradient-to-r from-blue-500 to-cyan-400 text-white rounded-lg px-3 sm:px-4 py-1 text-sm font-medium hover:opacity-90 transition-opacity">Apply</button>
-                </div>
+                <form
+                  className="relative"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    applyPromo();
+                  }}
+                >
+                  <input
+                    type="text"
+                    placeholder={t("cfg.promoPlaceholder")}
+                    value={promoDraft}
+                    onChange={(e) => setPromoDraft(e.target.value)}
+                    className="w-full rounded-lg bg-[#0f131b] border border-white/10 px-3 py-2 sm:py-3 text-white placeholder-white/40 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={checkingPromo || !promoDraft.trim()}
+                    className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-gradient-to-r from-blue-500 to-cyan-400 text-white rounded-lg px-3 sm:px-4 py-1 text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+                  >
+                    {checkingPromo ? t("cfg.promoChecking") : t("cfg.promoApply")}
+                  </button>
+                </form>
+                {promoError && <p className="mt-2 text-sm text-red-400">{promoError}</p>}
+                {promo && (
+                  <div className="mt-2 flex items-center justify-between gap-2 text-sm">
+                    <span className={promoWarning ? "text-yellow-300" : "text-cyan-300"}>
+                      {promoWarning || `${t("cfg.promoApplied", { code: promo.code })}${promo.description ? ` — ${promo.description}` : ""}`}
+                    </span>
+                    <button type="button" onClick={removePromo} className="text-white/60 hover:text-white underline">
+                      {t("common.remove")}
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -544,28 +874,159 @@ export default function GameConfigurator({
           {/* Pricing Summary (Right Panel) */}
           <div className="w-full lg:w-[340px] self-stretch bg-gradient-to-b from-blue-900/90 to-blue-900/70 rounded-2xl border border-white/10 p-6 flex flex-col shadow-[0_8px_30px_rgba(2,6,23,0.6)]">
             <div className="w-full flex flex-col items-center">
-              <div className="bg-gradient-to-r from-blue-500 to-cyan-400 text-white px-4 py-2 rounded-full font-semibold mb-6 shadow-lg">Recommended</div>
-              <div className="text-4xl sm:text-5xl font-bold mb-4">{totalGB}GB</div>
+              {recommendation && (
+                <>
+                  <div className="bg-gradient-to-r from-blue-500 to-cyan-400 text-white px-4 py-2 rounded-full font-semibold mb-2 shadow-lg">
+                    {t("cfg.recommendedTier", { tier: t(`tier.${recommendation.tier}`) })}
+                  </div>
+                  <p className="text-xs text-white/70 text-center mb-4">{t(`recommend.${recommendation.code}`, recommendation.params)}</p>
+                </>
+              )}
+              {undersized && recommendation && resources && (
+                <div role="status" className="w-full mb-4 rounded-xl border border-yellow-400/30 bg-yellow-500/10 p-3 text-sm text-yellow-200">
+                  <p>
+                    {t("cfg.undersized", {
+                      tier: t(`tier.${selectedTier}`),
+                      ram: resources.ramGB,
+                      vcpu: resources.vcpu,
+                    })}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedTier(recommendation.tier)}
+                    className="mt-2 rounded-lg bg-yellow-400/20 px-3 py-1 font-semibold text-yellow-100 hover:bg-yellow-400/30"
+                  >
+                    {t("cfg.switchTier", { tier: t(`tier.${recommendation.tier}`) })}
+                  </button>
+                </div>
+              )}
+              <div className="text-4xl sm:text-5xl font-bold mb-4">{resources?.ramGB ?? 0}GB</div>
+              {resources && (
+                <dl className="w-full text-sm bg-white/5 rounded-xl p-3 mb-6 space-y-1">
+                  <div className="flex justify-between">
+                    <dt className="text-white/70">{t("cfg.ram")}</dt>
+                    <dd className="font-medium">{resources.ramGB} GB</dd>
+                  </div>
+                  <div className="text-xs text-white/50">
+                    {resources.ramAtMinimum
+                      ? t("cfg.gameMinimum")
+                      : t("cfg.ramBreakdown", {
+                          players: resources.playerRamGB.toFixed(2),
+                          mods: resources.modRamGB.toFixed(2),
+                          tier: t(`tier.${selectedTier}`),
+                        })}
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-white/70">{t("cfg.vcpu")}</dt>
+                    <dd className="font-medium">
+                      {t.plural("cfg.cores", resources.vcpu)}
+                    </dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-white/70">{t("cfg.disk")}</dt>
+                    <dd className="font-medium">{t("cfg.diskNvme", { size: resources.diskGB })}</dd>
+                  </div>
+                </dl>
+              )}
               <ul className="text-sm text-white/90 mb-6 space-y-2 w-full text-left">
-                <li className="flex items-center gap-2"><span className="w-2 h-2 bg-cyan-400 rounded-full"></span>Supports 80+ other games</li>
-                <li className="flex items-center gap-2"><span className="w-2 h-2 bg-cyan-400 rounded-full"></span>Starbase games panel</li>
-                <li className="flex items-center gap-2"><span className="w-2 h-2 bg-cyan-400 rounded-full"></span>24 / 7 / 365 Support</li>
-                <li className="flex items-center gap-2"><span className="w-2 h-2 bg-cyan-400 rounded-full"></span>View all features</li>
+                <li className="flex items-center gap-2"><span className="w-2 h-2 bg-cyan-400 rounded-full"></span>{t("cfg.feature.games")}</li>
+                <li className="flex items-center gap-2"><span className="w-2 h-2 bg-cyan-400 rounded-full"></span>{t("cfg.feature.panel")}</li>
+                <li className="flex items-center gap-2"><span className="w-2 h-2 bg-cyan-400 rounded-full"></span>{t("cfg.feature.support")}</li>
+                <li className="flex items-center gap-2"><span className="w-2 h-2 bg-cyan-400 rounded-full"></span>{t("cfg.feature.all")}</li>
               </ul>
-              <div className="text-2xl sm:text-3xl font-bold mb-6">
-                ${dynamicPrice.toFixed(2)}<span className="text-lg">/month</span>
+              {quote && (
+                <div className="w-full text-sm mb-4 space-y-1">
+                  {quote.lineItems.map((li) => (
+                    <div key={li.id} className="flex justify-between">
+                      <span className="text-white/70">{quoteLabel(li, quote, t, format)}</span>
+                      <span>{format(li.amount)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between border-t border-white/10 pt-1">
+                    <span className="text-white/70">{t("cfg.subtotal")}</span>
+                    <span>{format(quote.subtotal)}</span>
+                  </div>
+                  {quote.discounts.map((d) => (
+                    <div key={d.id} className="flex justify-between text-cyan-300">
+                      <span>{quoteLabel(d, quote, t, format)}</span>
+                      <span>−{format(Math.abs(d.amount))}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="text-2xl sm:text-3xl font-bold mb-1">
+                {format(quote?.totalMonthly ?? 0)}<span className="text-lg">{t("common.perMonth")}</span>
+              </div>
+              <div className="text-xs text-white/60 mb-6">
+                {quote && quote.months > 1
+                  ? t("cfg.billedEvery", { amount: format(quote.totalTerm), months: quote.months })
+                  : t("cfg.billedMonthly")}
+                {quote && quote.firstTermDiscount > 0 && (
+                  <div className="text-cyan-300">{t("cfg.firstInvoice", { amount: format(quote.firstTermTotal) })}</div>
+                )}
+                {currency.code !== BASE_CURRENCY.code && (
+                  <div>{t("cfg.converted", { currency: currency.code })}</div>
+                )}
+                <CurrencySwitcher locale={locale} className="mt-3" />
               </div>
 
-              <button className="bg-gradient-to-r from-blue-500 to-cyan-400 text-white px-6 py-3 rounded-lg font-semibold w-full hover:opacity-90 transition-opacity shadow-lg" onClick={buildAndRedirect}>
+              {/* announced as the configuration changes; explains why BUY PLAN is disabled */}
+              <div id="checkout-blockers" aria-live="polite" className="mb-3 text-sm text-red-300">
+                {!canSubmit && (
+                  <>
+                    <p>{t("cfg.fixToContinue")}</p>
+                    <ul className="list-disc pl-5">
+                      {validationErrors.map((e) => (
+                        <li key={e.field}>{t(`validation.${e.code}`, e.params)}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+              <button
+                className="bg-gradient-to-r from-blue-500 to-cyan-400 text-white px-6 py-3 rounded-lg font-semibold w-full hover:opacity-90 transition-opacity shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={buildAndRedirect}
+                disabled={!canSubmit || building}
+                aria-describedby={canSubmit ? undefined : "checkout-blockers"}
+              >
                 {building ? (
                   <div className="flex items-center gap-2">
                     <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-white"></div>
-                    Preparing…
+                    {t("cfg.preparing")}
                   </div>
                 ) : (
-                  "BUY PLAN"
+                  t("cfg.buy")
                 )}
               </button>
+              {checkoutError && (
+                <p role="alert" className="mt-2 text-sm text-red-300">
+                  {checkoutError}
+                </p>
+              )}
+              <button
+                type="button"
+                onClick={addToCart}
+                disabled={!canSubmit}
+                aria-describedby={canSubmit ? undefined : "checkout-blockers"}
+                className="mt-3 w-full rounded-lg border border-cyan-400/60 px-6 py-2 text-sm font-semibold text-cyan-200 hover:border-cyan-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {cartItemId ? t("cart.update") : t("cart.add")}
+              </button>
+              {cartNotice && (
+                <p role="status" className="mt-2 text-center text-sm text-white/80">
+                  {cartNotice}{" "}
+                  <a href={localePath(t.locale, "/cart")} className="text-cyan-300 underline hover:text-cyan-200">
+                    {t("cart.view")}
+                  </a>
+                </p>
+              )}
+              <button
+                type="button"
+                onClick={copyLink}
+                className="mt-3 w-full rounded-lg border border-white/20 px-6 py-2 text-sm font-medium text-white/90 hover:border-white/40 transition-colors"
+              >
+                {linkCopied ? t("cfg.linkCopied") : t("cfg.copyLink")}
+              </button>
             </div>
           </div>
         </div>
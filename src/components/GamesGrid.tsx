@@ -1,80 +1,145 @@
-import React, { useEffect, useMemo, useState } from "react";
-import { API_BASE } from "../lib/config";
-
-type ServerConfig = {
-    ramPerPlayer: number;
-    cpuPerPlayer: number;
-    diskPerPlayer: number;
-    minRam: number;
-    minCPU: number;
-    standard_PID: number;
-    premium_PID: number;
-    standard_RAM_CID: number;
-    premium_RAM_CID: number;
-    standard_Location_CID: number;
-    premium_Location_CID: number;
-};
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { fetchGames } from "../lib/api";
+import { describeApiError } from "../lib/apiErrors";
+import { convert, useCurrency } from "../lib/currency";
+import { RESUME_PARAM, useDrafts } from "../lib/drafts";
+import {
+    DEFAULT_FILTERS,
+    SORT_OPTIONS,
+    applyGameFilters,
+    catalogTags,
+    hasActiveFilters,
+    readGameFilters,
+    writeGameFilters,
+} from "../lib/gameFilters";
+import type { GameFilters, ModFilter, SortId } from "../lib/gameFilters";
+import { getTranslator, localePath } from "../lib/i18n";
+import type { Locale } from "../lib/i18n";
+import { roundCents, startingMonthlyPrice } from "../lib/pricing";
+import { configurePath, gamePath } from "../lib/routes";
+import type { CurrencyInfo, GameInfo } from "../lib/types";
+import CompareTray, { CompareToggle } from "./CompareTray";
+import CurrencySwitcher from "./CurrencySwitcher";
 
-type Game = {
-    id: string;                // "minecraft"
-    name: string;              // "Minecraft"
-    startingPrice?: number;    // optional, for "Starting at"
-    image?: string;            // optional card image
-    minPlayers: number;
-    maxPlayers: number;
-    minMods: number;
-    maxMods: number;
-    serverConfig?: ServerConfig; // Detailed server configuration
-    // you can keep extra fields from your API; they're ignored here
+const parseNumberInput = (value: string) => {
+    if (value.trim() === "") return undefined;
+    const n = Number(value);
+    return Number.isFinite(n) && n >= 0 ? n : undefined;
 };
 
-const fetchJSON = async <T,>(path: string): Promise<T> => {
-    const url = `${API_BASE}${path}`;
-    const res = await fetch(url, {
-        cache: "no-store",
-        mode: "cors",
-        credentials: "omit"
-    });
-
-    if (!res.ok) throw new Error(`Failed to fetch ${path}: ${res.status}`);
+const inputClass =
+    "rounded-xl bg-[#1a2238] border border-gray-700 px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
 
-    const response = await res.json();
+// A price bound typed in the displayed currency and kept in USD, so a linked
+// minprice/maxprice means the same in every currency. The typed text is kept
+// as is; it is only rewritten when the bound or the currency change elsewhere.
+const PriceInput = ({
+    usd,
+    currency,
+    onChange,
+    placeholder,
+    label,
+}: {
+    usd?: number;
+    currency: CurrencyInfo;
+    onChange: (usd: number | undefined) => void;
+    placeholder: string;
+    label: string;
+}) => {
+    const shown = (amount?: number) => (amount === undefined ? "" : String(convert(amount, currency)));
+    const [text, setText] = useState(() => shown(usd));
+    const typed = useRef({ usd, currency: currency.code });
 
-    // Handle the wrapped response format {ok: boolean, data: T}
-    const data = response.ok ? response.data : response;
+    useEffect(() => {
+        if (usd === typed.current.usd && currency.code === typed.current.currency) return;
+        typed.current = { usd, currency: currency.code };
+        setText(shown(usd));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [usd, currency.code]);
 
-    return data;
+    return (
+        <input
+            type="number"
+            min={0}
+            placeholder={placeholder}
+            aria-label={label}
+            className={`${inputClass} w-24`}
+            value={text}
+            onChange={(e) => {
+                setText(e.target.value);
+                const amount = parseNumberInput(e.target.value);
+                const next = amount === undefined ? undefined : roundCents(amount / currency.rate);
+                typed.current = { usd: next, currency: currency.code };
+                onChange(next);
+            }}
+        />
+    );
 };
 
-export default function GamesGrid() {
-    const [games, setGames] = useState<Game[]>([]);
-    const [q, setQ] = useState("");
-    const [loading, setLoading] = useState(true);
+// `initialGames` is the catalog loaded by the page on the server; without it
+// the grid fetches the catalog in the browser. `initialSearch` is the request's
+// query string, so the server render already shows the filtered view.
+export default function GamesGrid({
+    initialGames,
+    initialSearch,
+    locale,
+}: {
+    initialGames?: GameInfo[];
+    initialSearch?: string;
+    locale?: Locale;
+}) {
+    const t = getTranslator(locale);
+    const [games, setGames] = useState<GameInfo[]>(initialGames ?? []);
+    const [filters, setFilters] = useState<GameFilters>(() =>
+        readGameFilters(new URLSearchParams(initialSearch ?? (typeof window === "undefined" ? "" : window.location.search)))
+    );
+    const [loading, setLoading] = useState(!initialGames);
     const [err, setErr] = useState<string | null>(null);
 
     useEffect(() => {
+        if (initialGames) return;
         (async () => {
             try {
-                const data = await fetchJSON<Game[]>("/?handler=pulldata&file=games.json");
-
-                // Validate data
-                if (!Array.isArray(data)) {
-                    throw new Error('Games data is not an array');
-                }
-
-                setGames(data);
-            } catch (e: any) {
-                setErr(e.message || "Error");
+                setGames(await fetchGames());
+            } catch (e) {
+                console.error("Failed to load games:", e);
+                setErr(describeApiError(e, t, t("errors.loadGames")));
             } finally {
                 setLoading(false);
             }
         })();
-    }, []);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [initialGames]);
+
+    // keep the address bar in sync so a filtered view can be linked
+    useEffect(() => {
+        const url = new URL(window.location.href);
+        writeGameFilters(url.searchParams, filters);
+        window.history.replaceState(window.history.state, "", url);
+    }, [filters]);
+
+    const update = (patch: Partial<GameFilters>) => setFilters(f => ({ ...f, ...patch }));
+    const toggleTag = (tag: string) =>
+        setFilters(f => ({ ...f, tags: f.tags.includes(tag) ? f.tags.filter(t => t !== tag) : [...f.tags, tag] }));
 
-    const filtered = useMemo(() => {
-        const term = q.trim().toLowerCase();
-        return term ? games.filter(g => g.name.toLowerCase().includes(term)) : games;
-    }, [games, q]);
+    const { currency, format } = useCurrency();
+    const prices = useMemo(() => new Map(games.map(g => [g.id, startingMonthlyPrice(g)])), [games]);
+    const tags = useMemo(() => catalogTags(games), [games]);
+    const filtered = useMemo(
+        // the price facet is in USD, like the prices it filters
+        () => applyGameFilters(games, filters, g => prices.get(g.id) ?? 0),
+        [games, filters, prices]
+    );
+    const filtering = hasActiveFilters(filters);
+    // drafts for games still in the catalog, newest first
+    const drafts = useDrafts();
+    const recent = useMemo(
+        () => drafts.flatMap(d => {
+            const game = games.find(g => g.id === d.gameId);
+            return game ? [{ draft: d, game }] : [];
+        }),
+        [drafts, games]
+    );
 
     if (loading) return (
         <div className="flex justify-center items-center h-64">
@@ -84,31 +149,151 @@ export default function GamesGrid() {
 
     if (err) return <div className="text-red-400 text-center py-10">{err}</div>;
 
-    if (!games.length) return <div className="text-center py-10 text-gray-500">No games found.</div>;
+    if (!games.length) return <div className="text-center py-10 text-gray-500">{t("games.none")}</div>;
 
     return (
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
             {/* Header */}
             <div className="text-center mb-12">
-                <h1 className="text-4xl font-bold text-white mb-4">Game Server Hosting</h1>
+                <h1 className="text-4xl font-bold text-white mb-4">{t("games.title")}</h1>
                 <p className="text-xl text-gray-300 max-w-3xl mx-auto">
-                    Launch your perfect gaming experience with our high-performance servers
+                    {t("games.subtitle")}
                 </p>
+                <CurrencySwitcher locale={locale} className="mt-4" />
             </div>
 
+            {/* Recently configured */}
+            {recent.length > 0 && (
+                <div className="max-w-4xl mx-auto mb-10">
+                    <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-400 mb-3">{t("draft.recentHeading")}</h2>
+                    <div className="flex gap-3 overflow-x-auto pb-1">
+                        {recent.map(({ draft, game }) => (
+                            <a
+                                key={game.id}
+                                href={localePath(t.locale, configurePath(game, draft.tier, new URLSearchParams({ [RESUME_PARAM]: "1" })))}
+                                className="flex items-center gap-3 shrink-0 rounded-xl bg-[#1a2238] border border-gray-700 hover:border-blue-500 px-3 py-2 transition-colors"
+                            >
+                                {game.image && <img src={game.image} alt="" className="w-10 h-10 rounded-lg object-cover" />}
+                                <div className="text-sm">
+                                    <div className="font-semibold text-white">{game.name}</div>
+                                    <div className="text-gray-400">
+                                        {t("draft.summary", { tier: t(`tier.${draft.tier}`), players: draft.players })}
+                                    </div>
+                                </div>
+                                <span className="text-sm text-blue-400">{t("draft.continue")}</span>
+                            </a>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Search Bar */}
             <div className="max-w-4xl mx-auto mb-12">
                 <div className="relative">
                     <input
                         className="w-full rounded-2xl bg-[#1a2238] border border-gray-700 px-6 py-4 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                        placeholder="Get Your Favorite Game Server...."
-                        value={q}
-                        onChange={(e) => setQ(e.target.value)}
+                        placeholder={t("games.searchPlaceholder")}
+                        value={filters.q}
+                        onChange={(e) => update({ q: e.target.value })}
                     />
                     {/* <button className="absolute right-3 top-1/2 transform -translate-y-1/2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl px-6 py-2 transition-colors">
                         Search
                     </button> */}
                 </div>
+
+                {/* Facets */}
+                <div className="mt-4 flex flex-wrap items-end gap-4 text-sm">
+                    <label className="flex flex-col gap-1 text-gray-400">
+                        {t("games.filterPlayers")}
+                        <input
+                            type="number"
+                            min={1}
+                            placeholder={t("games.playersPlaceholder")}
+                            className={`${inputClass} w-28`}
+                            value={filters.players ?? ""}
+                            onChange={(e) => {
+                                const n = parseNumberInput(e.target.value);
+                                update({ players: n === undefined ? undefined : Math.round(n) });
+                            }}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-gray-400">
+                        {t("games.filterMods")}
+                        <select
+                            className={inputClass}
+                            value={filters.mods}
+                            onChange={(e) => update({ mods: e.target.value as ModFilter })}
+                        >
+                            <option value="any">{t("games.modsAny")}</option>
+                            <option value="supported">{t("games.modsSupported")}</option>
+                            <option value="none">{t("games.modsNone")}</option>
+                        </select>
+                    </label>
+                    <fieldset className="flex flex-col gap-1 text-gray-400">
+                        <legend className="mb-1">{t("games.filterPrice", { currency: currency.code })}</legend>
+                        <div className="flex items-center gap-2">
+                            <PriceInput
+                                usd={filters.priceMin}
+                                currency={currency}
+                                placeholder={t("games.priceMin")}
+                                label={t("games.priceMinLabel")}
+                                onChange={(priceMin) => update({ priceMin })}
+                            />
+                            <span>–</span>
+                            <PriceInput
+                                usd={filters.priceMax}
+                                currency={currency}
+                                placeholder={t("games.priceMax")}
+                                label={t("games.priceMaxLabel")}
+                                onChange={(priceMax) => update({ priceMax })}
+                            />
+                        </div>
+                    </fieldset>
+                    <label className="flex flex-col gap-1 text-gray-400 ml-auto">
+                        {t("games.sortBy")}
+                        <select
+                            className={inputClass}
+                            value={filters.sort}
+                            onChange={(e) => update({ sort: e.target.value as SortId })}
+                        >
+                            {SORT_OPTIONS.map(id => (
+                                <option key={id} value={id}>{t(`games.sort.${id}`)}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+
+                {tags.length > 0 && (
+                    <div className="mt-4 flex flex-wrap gap-2">
+                        {tags.map(tag => {
+                            const active = filters.tags.includes(tag);
+                            return (
+                                <button
+                                    key={tag}
+                                    type="button"
+                                    aria-pressed={active}
+                                    onClick={() => toggleTag(tag)}
+                                    className={`px-3 py-1 rounded-full text-sm capitalize border transition-colors ${active ? "bg-blue-600 border-blue-500 text-white" : "border-gray-700 text-gray-300 hover:border-blue-500"}`}
+                                >
+                                    {tag}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {filtering && (
+                    <div className="mt-4 flex items-center justify-between text-sm text-gray-400">
+                        <span>{t("games.resultCount", { count: filtered.length, total: games.length })}</span>
+                        <button
+                            type="button"
+                            onClick={() => setFilters({ ...DEFAULT_FILTERS, sort: filters.sort })}
+                            className="text-blue-400 hover:text-blue-300"
+                        >
+                            {t("games.clearFilters")}
+                        </button>
+                    </div>
+                )}
             </div>
 
 
@@ -117,7 +302,7 @@ export default function GamesGrid() {
                 {filtered.map((g) => (
                     <a
                         key={g.id}
-                        href={`/game/${encodeURIComponent(g.name)}`}
+                        href={localePath(t.locale, gamePath(g))}
                         className="group relative bg-[#1a2238] rounded-2xl border border-gray-700 
             hover:border-blue-500 transition-all duration-300 overflow-hidden 
             shadow-lg hover:shadow-2xl hover:-translate-y-1 flex flex-col"
@@ -137,15 +322,22 @@ export default function GamesGrid() {
                             )}
 
                             <div className="absolute inset-0 bg-gradient-to-t from-black/70 to-transparent"></div>
+                            <span className="absolute top-3 left-3 z-10 rounded-full bg-black/60 px-3 py-1 text-xs font-semibold text-cyan-300">
+                                {t("games.fromPrice", { price: format(prices.get(g.id) ?? 0) })}
+                            </span>
+                            <CompareToggle item={{ gameId: g.id }} locale={locale} className="absolute top-3 right-3 z-10" />
                         </div>
 
                         {/* Game Info */}
                         <div className="p-6 pb-6 mt-auto">
                             <h3 className="text-xl font-bold text-white truncate">{g.name}</h3>
+                            {g.tags && g.tags.length > 0 && (
+                                <div className="mt-1 text-xs text-gray-400 capitalize truncate">{g.tags.join(" · ")}</div>
+                            )}
 
                             <div className="mt-4 flex items-end justify-between">
                                 <div>
-                                    <div className="text-md text-gray-400">Starting At $160</div>
+                                    <div className="text-md text-gray-400">{t("games.startingAt", { price: format(prices.get(g.id) ?? 0) })}<span className="text-sm">{t("common.perMonthShort")}</span></div>
                                 </div>
                             </div>
                         </div>
@@ -159,19 +351,21 @@ export default function GamesGrid() {
 
 
             {/* Empty State */}
-            {filtered.length === 0 && q && (
+            {filtered.length === 0 && filtering && (
                 <div className="text-center py-16">
                     <div className="text-6xl mb-4">🎮</div>
-                    <h3 className="text-2xl font-bold text-white mb-2">No games found</h3>
-                    <p className="text-gray-400 mb-6">Try adjusting your search terms</p>
+                    <h3 className="text-2xl font-bold text-white mb-2">{t("games.emptyHeading")}</h3>
+                    <p className="text-gray-400 mb-6">{t("games.emptyBody")}</p>
                     <button
-                        onClick={() => setQ("")}
+                        onClick={() => setFilters(DEFAULT_FILTERS)}
                         className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-lg transition-colors"
                     >
-                        View All Games
+                        {t("common.viewAllGames")}
                     </button>
                 </div>
             )}
+
+            <CompareTray locale={locale} />
         </div>
     );
 }
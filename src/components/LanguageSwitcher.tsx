@@ -0,0 +1,33 @@
+// src/components/LanguageSwitcher.tsx
+import React from "react";
+import { LOCALES, LOCALE_COOKIE, LOCALE_NAMES, getTranslator, localePath, splitLocalePath } from "../lib/i18n";
+import type { Locale } from "../lib/i18n";
+
+// Moves to the same page in another language and remembers the choice in a
+// cookie, so the worker stops redirecting by Accept-Language
+export default function LanguageSwitcher({ locale, className = "" }: { locale: Locale; className?: string }) {
+  const t = getTranslator(locale);
+
+  const switchTo = (next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+    const { path } = splitLocalePath(window.location.pathname);
+    window.location.href = `${localePath(next, path)}${window.location.search}`;
+  };
+
+  return (
+    <label className={`inline-flex items-center gap-2 text-sm text-white/70 ${className}`}>
+      {t("common.language")}
+      <select
+        value={locale}
+        onChange={(e) => switchTo(e.target.value as Locale)}
+        className="rounded-lg bg-[#1a2238] border border-white/15 px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {LOCALES.map((l) => (
+          <option key={l} value={l} lang={l}>
+            {LOCALE_NAMES[l]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
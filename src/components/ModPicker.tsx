@@ -0,0 +1,134 @@
+// src/components/ModPicker.tsx
+import React, { useMemo, useState } from "react";
+import { getTranslator } from "../lib/i18n";
+import type { Locale } from "../lib/i18n";
+import type { ModInfo } from "../lib/types";
+
+const MAX_RESULTS = 8;
+
+export default function ModPicker({
+  catalog,
+  selected,
+  minMods,
+  maxMods,
+  loading,
+  error,
+  onAdd,
+  onRemove,
+  errorId,
+  locale,
+}: {
+  catalog: ModInfo[];
+  selected: string[]; // mod ids
+  minMods: number;
+  maxMods: number;
+  loading: boolean;
+  error: string | null;
+  onAdd: (id: string) => void;
+  onRemove: (id: string) => void;
+  errorId?: string; // id of the selection's validation error, while there is one
+  locale?: Locale;
+}) {
+  const [query, setQuery] = useState("");
+  const t = getTranslator(locale);
+
+  const byId = useMemo(() => new Map(catalog.map((m) => [m.id, m])), [catalog]);
+
+  const results = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    const available = catalog.filter((m) => !selected.includes(m.id));
+    const matches = term
+      ? available.filter(
+          (m) =>
+            m.name.toLowerCase().includes(term) ||
+            m.id.toLowerCase().includes(term) ||
+            (m.description || "").toLowerCase().includes(term)
+        )
+      : available;
+    return matches.slice(0, MAX_RESULTS);
+  }, [catalog, selected, query]);
+
+  const full = selected.length >= maxMods;
+
+  return (
+    <div>
+      {/* Selected chips */}
+      <div className="flex flex-wrap gap-2 mb-3 min-h-[2rem]">
+        {selected.length === 0 && <span className="text-sm text-white/40">{t("mods.noneSelected")}</span>}
+        {selected.map((id) => {
+          const mod = byId.get(id);
+          return (
+            <span
+              key={id}
+              className="inline-flex items-center gap-2 rounded-full bg-blue-500/20 border border-blue-400/30 px-3 py-1 text-sm"
+            >
+              {mod?.name || id}
+              {mod?.version && <span className="text-xs text-white/50">v{mod.version}</span>}
+              <button
+                type="button"
+                onClick={() => onRemove(id)}
+                aria-label={t("mods.remove", { name: mod?.name || id })}
+                className="text-white/60 hover:text-white"
+              >
+                ×
+              </button>
+            </span>
+          );
+        })}
+      </div>
+
+      {/* Search */}
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={t("mods.search")}
+        aria-label={t("mods.search")}
+        aria-invalid={!!errorId}
+        aria-describedby={errorId}
+        disabled={loading || !!error}
+        className="w-full rounded-lg bg-[#0f131b] border border-white/10 px-3 py-2 text-white placeholder-white/40 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+      />
+
+      {/* Results */}
+      {loading && <p className="text-sm text-white/60 mt-3">{t("mods.loading")}</p>}
+      {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+      {!loading && !error && (
+        <ul className="mt-3 divide-y divide-white/5">
+          {results.map((m) => (
+            <li key={m.id} className="flex items-center justify-between gap-3 py-2">
+              <div className="min-w-0">
+                <div className="font-medium truncate">
+                  {m.name}
+                  {m.version && <span className="ml-2 text-xs text-white/50">v{m.version}</span>}
+                </div>
+                {m.description && <div className="text-xs text-white/60 truncate">{m.description}</div>}
+              </div>
+              <button
+                type="button"
+                onClick={() => onAdd(m.id)}
+                disabled={full}
+                className="shrink-0 rounded-lg border border-white/10 px-3 py-1 text-sm hover:border-blue-500 disabled:opacity-40 disabled:hover:border-white/10"
+              >
+                {t("mods.add")}
+              </button>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="py-2 text-sm text-white/40">{query ? t("mods.noMatch") : t("mods.allSelected")}</li>
+          )}
+        </ul>
+      )}
+
+      <p className="text-xs text-white/60 mt-2">
+        {[
+          t("mods.count", { count: selected.length, max: maxMods }),
+          minMods > 0 && t("mods.minRequired", { count: minMods }),
+          full && t("mods.limitReached"),
+        ]
+          .filter(Boolean)
+          .join(" · ")}
+      </p>
+    </div>
+  );
+}
@@ -1,81 +1,44 @@
 // src/components/PlansGrid.tsx
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
+import { track } from "../lib/analytics";
+import { fetchGame, fetchPlans } from "../lib/api";
+import { describeApiError } from "../lib/apiErrors";
+import { useCurrency } from "../lib/currency";
+import { getTranslator, localePath, localizePlan } from "../lib/i18n";
+import type { Locale } from "../lib/i18n";
+import { MAX_BILLING_DISCOUNT, buildQuote } from "../lib/pricing";
+import { configurePath } from "../lib/routes";
+import { sizeServer } from "../lib/sizing";
+import type { ResourceAllocation } from "../lib/sizing";
+import type { GameInfo, PlanInfo, TierId } from "../lib/types";
+import { clampPlayers, defaultModCount } from "../lib/validation";
+import CompareTray, { CompareToggle } from "./CompareTray";
+import CurrencySwitcher from "./CurrencySwitcher";
 
 /**
  * Responsive PlansGrid (updated)
  * - Proper spacing and centering
  * - Card responsive: w-full max-w-[360px] (keeps correct spacing on small screens)
  * - Grid uses gap-x-10 gap-y-12 and justify-items-center
+ * - Plans come from plans.json; specs and prices are computed from the game's ServerConfig
  */
 
-type Plan = {
-  id: string;
-  name: string;
-  tier: "budget" | "standard" | "premium";
+type SizedPlan = PlanInfo & {
+  players: number;
+  mods: number;
+  resources: ResourceAllocation;
   priceMonthly: number;
-  storage: string;
-  cpuCores: string;
-  backups: string;
-  memory: string;
-  databases: string;
-  icon?: string;
-  description?: string;
 };
 
-const plans: Plan[] = [
-  {
-    id: "iron-forge",
-    name: "Iron Forge",
-    tier: "budget",
-    priceMonthly: 1.00,
-    storage: "50 GB NVMe Storage",
-    cpuCores: "3 vCPU Cores",
-    backups: "1 Cloud Backups",
-    memory: "2 GB Memory",
-    databases: "0 Databases",
-    icon: "🟩",
-    description: "Stronger hosting for active communities.",
-  },
-  {
-    id: "coal-engine",
-    name: "Coal Engine",
-    tier: "budget",
-    priceMonthly: 1.00,
-    storage: "50 GB NVMe Storage",
-    cpuCores: "3 vCPU Cores",
-    backups: "1 Cloud Backups",
-    memory: "2 GB Memory",
-    databases: "0 Databases",
-    icon: "🟩",
-    description: "Fuel your first multiplayer adventure.",
-  },
-  {
-    id: "netherite-ultra",
-    name: "Netherite Ultra",
-    tier: "standard",
-    priceMonthly: 2.00,
-    storage: "50 GB NVMe Storage",
-    cpuCores: "3 vCPU Cores",
-    backups: "1 Cloud Backups",
-    memory: "2 GB Memory",
-    databases: "0 Databases",
-    icon: "🟨",
-    description: "Ultimate protection and unbeatable performance.",
-  },
-  {
-    id: "netherite-ultra-2",
-    name: "Netherite Ultra",
-    tier: "premium",
-    priceMonthly: 3.00,
-    storage: "50 GB NVMe Storage",
-    cpuCores: "3 vCPU Cores",
-    backups: "1 Cloud Backups",
-    memory: "2 GB Memory",
-    databases: "0 Databases",
-    icon: "🔺",
-    description: "Ultimate protection and unbeatable performance.",
-  },
-];
+// Fits a catalog plan to one game's limits and sizes it from that game's ServerConfig
+const sizePlan = (plan: PlanInfo, game: GameInfo): SizedPlan => {
+  const players = clampPlayers(game, plan.players);
+  // mods are picked in the configurator; price the game's required minimum
+  const mods = defaultModCount(game);
+  const resources = sizeServer({ serverConfig: game.serverConfig, players, mods, tier: plan.tier });
+  const quote = buildQuote({ resources, tier: plan.tier, billingPeriod: "monthly", mods });
+  return { ...plan, players, mods, resources, priceMonthly: quote.totalMonthly };
+};
 
 const TabButton: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode; }> = ({ active, onClick, children }) => (
   <button
@@ -87,21 +50,85 @@ const TabButton: React.FC<{ active: boolean; onClick: () => void; children: Reac
   </button>
 );
 
-export default function PlansGrid({ initialGameName }: { initialGameName?: string }) {
-  const [tab, setTab] = useState<"budget" | "standard" | "premium">("budget");
-  const filtered = useMemo(() => plans.filter((p) => p.tier === tab), [tab]);
-  const gameName = initialGameName || "My Game";
+export default function PlansGrid({
+  initialGameName,
+  initialGame,
+  initialPlans,
+  locale,
+}: {
+  initialGameName?: string;
+  // loaded by the page on the server; fetched in the browser when absent
+  initialGame?: GameInfo;
+  initialPlans?: PlanInfo[];
+  locale?: Locale;
+}) {
+  const t = getTranslator(locale);
+  const hydrated = !!(initialGame && initialPlans);
+  const [tab, setTab] = useState<TierId>("budget");
+  const [game, setGame] = useState<GameInfo | null>(initialGame ?? null);
+  const [plans, setPlans] = useState<PlanInfo[]>(initialPlans ?? []);
+  const [loading, setLoading] = useState(!hydrated);
+  const [err, setErr] = useState<string | null>(null);
+  const { format } = useCurrency();
+
+  useEffect(() => {
+    if (hydrated) return;
+    (async () => {
+      setLoading(true);
+      try {
+        // without a game the grid shows common.noGameData
+        if (!initialGameName) return;
+        const g = await fetchGame(initialGameName);
+        if (!g) {
+          setErr(t("errors.gameNotFound", { game: initialGameName }));
+          return;
+        }
+        setGame(g);
+        setPlans(await fetchPlans(g.id));
+      } catch (e) {
+        console.error("Failed to load plans:", e);
+        setErr(describeApiError(e, t, t("errors.loadPlans")));
+      } finally {
+        setLoading(false);
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialGameName, hydrated]);
+
+  useEffect(() => {
+    if (game) track({ name: "game_viewed", gameId: game.id });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game?.id]);
+
+  const sized = useMemo(
+    () => (game ? plans.map((p) => sizePlan(localizePlan(p, t.locale), game)) : []),
+    [plans, game, t]
+  );
+  const filtered = useMemo(() => sized.filter((p) => p.tier === tab), [sized, tab]);
+
+  if (loading)
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+
+  if (err || !game) return <div className="text-red-400 text-center py-10">{err || t("common.noGameData")}</div>;
+
   return (
     <section className="min-h-screen py-12 px-4 md:px-12 bg-gradient-to-b from-[#07101a] to-[#0b1220] text-white">
       <div className="max-w-7xl mx-auto">
         {/* Header + Tabs */}
         <div className="text-center mb-10">
-          <h2 className="text-2xl sm:text-3xl md:text-4xl font-semibold">Choose Your Perfect Server Plan</h2>
+          <h2 className="text-2xl sm:text-3xl md:text-4xl font-semibold">{t("plans.heading", { game: game.name })}</h2>
 
           <div className="mt-6 inline-flex gap-2 sm:gap-3 p-1 bg-white/5 rounded-full shadow-inner">
-            <TabButton active={tab === "budget"} onClick={() => setTab("budget")}>Budget</TabButton>
-            <TabButton active={tab === "standard"} onClick={() => setTab("standard")}>Standard</TabButton>
-            <TabButton active={tab === "premium"} onClick={() => setTab("premium")}>Premium</TabButton>
+            <TabButton active={tab === "budget"} onClick={() => setTab("budget")}>{t("tier.budget")}</TabButton>
+            <TabButton active={tab === "standard"} onClick={() => setTab("standard")}>{t("tier.standard")}</TabButton>
+            <TabButton active={tab === "premium"} onClick={() => setTab("premium")}>{t("tier.premium")}</TabButton>
+          </div>
+          <div className="mt-4">
+            <CurrencySwitcher locale={locale} />
           </div>
         </div>
 
@@ -122,7 +149,8 @@ export default function PlansGrid({ initialGameName }: { initialGameName?: strin
             {filtered.map((p) => (
               <a
                 key={p.id}
-                href={`/plans?gamename=${encodeURIComponent(gameName)}&plan=${encodeURIComponent(tab)}`}
+                href={localePath(t.locale, configurePath(game, p.id))}
+                onClick={() => track({ name: "plan_selected", gameId: game.id, planId: p.id, tier: p.tier })}
                 className="w-full max-w-[360px]"
               >
                 <article
@@ -150,36 +178,42 @@ export default function PlansGrid({ initialGameName }: { initialGameName?: strin
                   <h3 className="text-center text-lg sm:text-xl font-bold text-white mt-3">{p.name}</h3>
 
                   {/* Subtitle */}
-                  <p className="text-center text-xs sm:text-sm text-white/60 mt-1 leading-snug">{`"${p.description}"`}</p>
+                  {p.description && (
+                    <p className="text-center text-xs sm:text-sm text-white/60 mt-1 leading-snug">{`"${p.description}"`}</p>
+                  )}
+                  <p className="text-center text-xs text-white/50 mt-1">
+                    {t("plans.upToPlayers", { count: p.players })}
+                    {p.mods > 0 && ` · ${t("plans.modsRequired", { count: p.mods })}`}
+                  </p>
 
                   {/* Features */}
                   <div className="mt-4 flex flex-col items-center text-[10px] sm:text-xs text-white/85 px-1">
                     <div className="flex flex-col sm:flex-row gap-2 sm:gap-6">
                       <div className="flex items-center gap-2">
                         <span className="w-2 h-2 bg-cyan-400 rounded-full" />
-                        <span className="text-xs sm:text-sm">{p.storage}</span>
+                        <span className="text-xs sm:text-sm">{t("plans.storage", { size: p.resources.diskGB })}</span>
                       </div>
                       <div className="flex items-center gap-2">
                         <span className="w-2 h-2 bg-cyan-400 rounded-full" />
-                        <span className="text-xs sm:text-sm">{p.cpuCores}</span>
+                        <span className="text-xs sm:text-sm">{t.plural("plans.vcpu", p.resources.vcpu)}</span>
                       </div>
                     </div>
 
                     <div className="flex flex-col sm:flex-row gap-2 sm:gap-6 mt-2">
                       <div className="flex items-center gap-2">
                         <span className="w-2 h-2 bg-cyan-400 rounded-full" />
-                        <span className="text-xs sm:text-sm">{p.backups}</span>
+                        <span className="text-xs sm:text-sm">{t.plural("plans.backups", p.backups)}</span>
                       </div>
                       <div className="flex items-center gap-2">
                         <span className="w-2 h-2 bg-cyan-400 rounded-full" />
-                        <span className="text-xs sm:text-sm">{p.memory}</span>
+                        <span className="text-xs sm:text-sm">{t("plans.memory", { size: p.resources.ramGB })}</span>
                       </div>
                     </div>
 
                     <div className="flex flex-col sm:flex-row gap-2 sm:gap-6 mt-2">
                       <div className="flex items-center gap-2">
                         <span className="w-2 h-2 bg-cyan-400 rounded-full" />
-                        <span className="text-xs sm:text-sm">{p.databases}</span>
+                        <span className="text-xs sm:text-sm">{t.plural("plans.databases", p.databases)}</span>
                       </div>
                     </div>
                   </div>
@@ -192,17 +226,24 @@ export default function PlansGrid({ initialGameName }: { initialGameName?: strin
                     shadow-lg
                   "
                   >
-                    ${p.priceMonthly.toFixed(2)}
-                    <span className="text-xs sm:text-sm text-white/80 ml-1">/month</span>
+                    {format(p.priceMonthly)}
+                    <span className="text-xs sm:text-sm text-white/80 ml-1">{t("common.perMonth")}</span>
                   </div>
 
-                  <div className="mt-2 text-center text-xs sm:text-sm text-white/50">Save 20% with annual billing</div>
+                  <div className="mt-2 text-center text-xs sm:text-sm text-white/50">{t("plans.saveAnnual", { percent: MAX_BILLING_DISCOUNT })}</div>
+                  <div className="mt-3 mb-2 flex justify-center">
+                    <CompareToggle item={{ gameId: game.id, planId: p.id }} locale={locale} />
+                  </div>
                 </article>
               </a>
             ))}
           </div>
+          {filtered.length === 0 && (
+            <p className="text-center text-white/60 py-10">{t("plans.emptyTier", { tier: t(`tier.${tab}`), game: game.name })}</p>
+          )}
         </div>
       </div>
+      <CompareTray locale={locale} />
     </section>
   );
 }
@@ -0,0 +1,20 @@
+/// <reference types="astro/client" />
+
+// Bindings and variables configured in wrangler.json
+interface Env {
+  CATALOG_CACHE?: import("./lib/catalogCache").KVStore;
+  CATALOG_TTL_SECONDS?: string;
+  CATALOG_SWR_SECONDS?: string;
+  CACHE_PURGE_TOKEN?: string; // secret: wrangler secret put CACHE_PURGE_TOKEN
+  EVENTS_FORWARD_URL?: string; // analytics collector /api/events forwards to
+  ADMIN_TOKEN?: string; // secret: password for /admin
+  CATALOG_PUBLISH_TOKEN?: string; // secret: bearer token for the upstream pushdata handler
+}
+
+type Runtime = import("@astrojs/cloudflare").Runtime<Env>;
+
+declare namespace App {
+  interface Locals extends Partial<Runtime> {
+    locale?: import("./lib/i18n").Locale; // set by src/middleware.ts
+  }
+}
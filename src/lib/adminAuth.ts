@@ -0,0 +1,44 @@
+// Access to /admin and /api/admin/*. Both accept the ADMIN_TOKEN secret as a
+// bearer token, or as the password of HTTP Basic auth (any user name) so the
+// browser prompts for it and resends it with the editor's requests.
+export const ADMIN_REALM = "Catalog admin";
+
+// Compares without returning early, so timing doesn't reveal the token. Also
+// used for CACHE_PURGE_TOKEN (src/pages/api/cache/purge.ts).
+export const safeEqual = (a: string, b: string) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+};
+
+export const isAdminRequest = (request: Request, token: string) => {
+  const header = request.headers.get("Authorization") ?? "";
+  const [scheme, value = ""] = header.split(" ", 2);
+  if (scheme === "Bearer") return safeEqual(value, token);
+  if (scheme === "Basic") {
+    let decoded = "";
+    try {
+      decoded = atob(value);
+    } catch {
+      return false;
+    }
+    return safeEqual(decoded.slice(decoded.indexOf(":") + 1), token);
+  }
+  return false;
+};
+
+// Browsers resend Basic credentials on their own, so a cross-site form could
+// post with them. Writes must come from this site: Sec-Fetch-Site when the
+// browser sends it, else Origin. Scripts sending neither can't be forged.
+export const isSameOriginRequest = (request: Request) => {
+  const site = request.headers.get("Sec-Fetch-Site");
+  if (site) return site === "same-origin";
+  const origin = request.headers.get("Origin");
+  return origin === null || origin === new URL(request.url).origin;
+};
+
+export const adminChallenge = () =>
+  new Response("Authentication required", {
+    status: 401,
+    headers: { "WWW-Authenticate": `Basic realm="${ADMIN_REALM}", charset="UTF-8"`, "Cache-Control": "no-store" },
+  });
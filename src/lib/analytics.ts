@@ -0,0 +1,158 @@
+// Funnel analytics. Components call `track` with a typed event; every
+// registered sink receives it once the visitor has agreed to analytics.
+// The default sink batches events to the worker's /api/events endpoint.
+import { useEffect, useState } from "react";
+import type { BillingPeriodId } from "./pricing";
+import type { TierId } from "./types";
+
+export type AnalyticsEvent =
+  | { name: "game_viewed"; gameId: string }
+  | { name: "plan_selected"; gameId: string; planId: string; tier: TierId }
+  | {
+      name: "config_changed";
+      gameId: string;
+      players: number;
+      locationId: string;
+      tier: TierId;
+      billingPeriod: BillingPeriodId;
+      mods: number;
+      promoCode?: string;
+    }
+  | { name: "checkout_started"; gameIds: string[]; currency: string; totalMonthly: number }
+  | { name: "checkout_failed"; gameIds: string[]; error: string };
+
+export type EventName = AnalyticsEvent["name"];
+
+export const EVENT_NAMES = [
+  "game_viewed",
+  "plan_selected",
+  "config_changed",
+  "checkout_started",
+  "checkout_failed",
+] as const satisfies readonly EventName[];
+
+// what sinks receive: the event plus when and where it happened
+export type TrackedEvent = AnalyticsEvent & { at: number; path: string };
+
+export type AnalyticsSink = (event: TrackedEvent) => void;
+
+export const EVENTS_PATH = "/api/events";
+export const MAX_EVENT_BATCH = 20;
+
+const CONSENT_KEY = "aleforge:analytics-consent";
+const CONSENT_EVENT = "aleforge:analytics-consent-change";
+
+// true/false once the visitor has chosen, null while they haven't
+export const readConsent = (): boolean | null => {
+  try {
+    const value = window.localStorage.getItem(CONSENT_KEY);
+    return value === "granted" ? true : value === "denied" ? false : null;
+  } catch {
+    return null;
+  }
+};
+
+export const setConsent = (granted: boolean) => {
+  try {
+    window.localStorage.setItem(CONSENT_KEY, granted ? "granted" : "denied");
+  } catch {
+    // storage disabled: the choice only lasts for this page
+  }
+  window.dispatchEvent(new Event(CONSENT_EVENT));
+};
+
+export const useConsent = (): boolean | null | undefined => {
+  // undefined until read in the browser, so nothing flashes during hydration
+  const [consent, setState] = useState<boolean | null | undefined>(undefined);
+  useEffect(() => {
+    const sync = () => setState(readConsent());
+    sync();
+    window.addEventListener(CONSENT_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(CONSENT_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+  return consent;
+};
+
+// Batches events and posts them to the worker; whatever is queued is sent
+// with sendBeacon when the page is hidden, so clicks that navigate still count
+const queue: TrackedEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+const flush = () => {
+  clearTimeout(flushTimer);
+  flushTimer = undefined;
+  if (queue.length === 0) return;
+  const body = JSON.stringify({ events: queue.splice(0, MAX_EVENT_BATCH) });
+  const sent = navigator.sendBeacon?.(EVENTS_PATH, new Blob([body], { type: "application/json" }));
+  if (!sent) {
+    fetch(EVENTS_PATH, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      keepalive: true,
+    }).catch(() => {
+      // analytics never gets in the visitor's way
+    });
+  }
+  if (queue.length > 0) flush();
+};
+
+let flushOnHide = false;
+
+export const collectorSink: AnalyticsSink = (event) => {
+  if (!flushOnHide) {
+    flushOnHide = true;
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") flush();
+    });
+  }
+  queue.push(event);
+  if (queue.length >= MAX_EVENT_BATCH) flush();
+  else flushTimer ??= setTimeout(flush, 2000);
+};
+
+// development aid; console.debug calls are stripped from production builds
+const consoleSink: AnalyticsSink = (event) => console.debug("[analytics]", event);
+
+const sinks: AnalyticsSink[] = import.meta.env.DEV ? [collectorSink, consoleSink] : [collectorSink];
+
+// Registers another sink (e.g. a third-party tag); returns a function removing it
+export const addSink = (sink: AnalyticsSink) => {
+  sinks.push(sink);
+  return () => {
+    const i = sinks.indexOf(sink);
+    if (i >= 0) sinks.splice(i, 1);
+  };
+};
+
+export const track = (event: AnalyticsEvent) => {
+  if (typeof window === "undefined" || readConsent() !== true) return;
+  const tracked: TrackedEvent = { ...event, at: Date.now(), path: window.location.pathname };
+  for (const sink of sinks) {
+    try {
+      sink(tracked);
+    } catch (e) {
+      console.error("Analytics sink failed:", e);
+    }
+  }
+};
+
+const pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Tracks only the last of a burst of events sharing `key`, once `delayMs` has
+// passed without another
+export const trackDebounced = (key: string, event: AnalyticsEvent, delayMs = 1500) => {
+  clearTimeout(pending.get(key));
+  pending.set(
+    key,
+    setTimeout(() => {
+      pending.delete(key);
+      track(event);
+    }, delayMs)
+  );
+};
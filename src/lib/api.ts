@@ -0,0 +1,228 @@
+// Typed client for the storefront API. Every handler answers with an
+// {ok, data} envelope; payloads are validated before they reach the UI.
+import { EnvelopeError, HttpError, NetworkError, SchemaError } from "./apiErrors";
+import { API_BASE, PROMO_API_BASE } from "./config";
+import { normalizePromoCode } from "./promo";
+import type { CartCheckoutRequest, CartCheckoutResponse, CheckoutRequest, CheckoutResponse } from "./checkout";
+import type { BillingPeriodId } from "./pricing";
+import type { PromoCode } from "./promo";
+import {
+  parseArray,
+  parseBuildLinkResponse,
+  parseCartCheckoutResponse,
+  parseCheckoutResponse,
+  parseCurrencyInfo,
+  parseGameInfo,
+  parseLocationInfo,
+  parseModInfo,
+  parseObject,
+  parsePlanInfo,
+  parsePromoCode,
+} from "./schema";
+import type { BuildLinkResponse, CurrencyInfo, GameInfo, LocationInfo, ModInfo, PlanInfo, TierId } from "./types";
+
+type Params = Record<string, string>;
+
+// Browser-only fetch options; the Workers runtime rejects mode and credentials
+const fetchInit = (): RequestInit =>
+  typeof window === "undefined"
+    ? { cache: "no-store" }
+    : { cache: "no-store", mode: "cors", credentials: "omit" };
+
+const send = async <T,>(
+  url: string,
+  path: string,
+  init: RequestInit,
+  parse: (data: unknown) => T
+): Promise<T> => {
+  let res: Response;
+  try {
+    res = await fetch(url, { ...fetchInit(), ...init });
+  } catch (e) {
+    throw new NetworkError(path, e);
+  }
+
+  const body: unknown = await res.json().catch(() => undefined);
+  const envelope =
+    typeof body === "object" && body !== null && typeof (body as { ok?: unknown }).ok === "boolean"
+      ? (body as { ok: boolean; data?: unknown; error?: unknown; [key: string]: unknown })
+      : null;
+
+  if (!res.ok) {
+    throw new HttpError(
+      path,
+      res.status,
+      typeof envelope?.error === "string" ? envelope.error : undefined,
+      envelope ?? undefined
+    );
+  }
+  if (!envelope) throw new EnvelopeError(path, `Response from ${path} is not an {ok, data} envelope`);
+  if (!envelope.ok) {
+    throw new EnvelopeError(path, typeof envelope.error === "string" ? envelope.error : `Request to ${path} was rejected`);
+  }
+  if (!("data" in envelope)) throw new EnvelopeError(path, `Response from ${path} has no data`);
+
+  try {
+    return parse(envelope.data);
+  } catch (e) {
+    if (e instanceof SchemaError) throw new SchemaError(e.field, e.detail, path);
+    throw e;
+  }
+};
+
+// GET /?handler=... on the upstream API
+const request = <T,>(params: Params, parse: (data: unknown) => T, base = API_BASE): Promise<T> => {
+  const path = `/?${new URLSearchParams(params)}`;
+  return send(`${base}${path}`, path, {}, parse);
+};
+
+// POST to one of this site's own /api routes
+const post = <T,>(path: string, body: unknown, parse: (data: unknown) => T): Promise<T> =>
+  send(path, path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }, parse);
+
+export const fetchGames = (): Promise<GameInfo[]> =>
+  request({ handler: "pulldata", file: "games.json" }, (data) =>
+    parseArray(data, "games.json", parseGameInfo)
+  );
+
+// The handler may answer a ?game= query with the single game or the whole list
+export const fetchGame = (name: string): Promise<GameInfo | null> =>
+  request({ handler: "pulldata", file: "games.json", game: name }, (data) => {
+    if (!Array.isArray(data)) return parseGameInfo(data, "games.json");
+    const games = parseArray(data, "games.json", parseGameInfo);
+    const wanted = name.toLowerCase();
+    return games.find((g) => g.name.toLowerCase() === wanted || g.id === wanted) || null;
+  });
+
+export const fetchLocations = (): Promise<LocationInfo[]> =>
+  request({ handler: "pulldata", file: "locations.json" }, (data) =>
+    parseArray(data, "locations.json", parseLocationInfo)
+  );
+
+// Plans offered for a game; plans restricted to other games are dropped
+export const fetchPlans = (gameId: string): Promise<PlanInfo[]> =>
+  request({ handler: "pulldata", file: "plans.json", game: gameId }, (data) =>
+    parseArray(data, "plans.json", parsePlanInfo).filter((p) => !p.games?.length || p.games.includes(gameId))
+  );
+
+// Mod catalog for one game. Assumes ?game=<id> answers with that game's mods
+// as an array; the upstream format is not confirmed yet (see README)
+export const fetchMods = (gameId: string): Promise<ModInfo[]> =>
+  request({ handler: "pulldata", file: "mods.json", game: gameId }, (data) =>
+    parseArray(data, "mods.json", parseModInfo)
+  );
+
+// Selling currencies and their rates against USD
+export const fetchCurrencies = (): Promise<CurrencyInfo[]> =>
+  request({ handler: "pulldata", file: "currencies.json" }, (data) =>
+    parseArray(data, "currencies.json", parseCurrencyInfo)
+  );
+
+export const fetchPromoCode = ({
+  code,
+  gameId,
+  tier,
+}: {
+  code: string;
+  gameId: string;
+  tier: TierId;
+}): Promise<PromoCode> =>
+  request(
+    { handler: "promocode", code: normalizePromoCode(code), game: gameId, tier },
+    (data) => parsePromoCode(data, "promocode"),
+    PROMO_API_BASE
+  );
+
+export type BuildLinkParams = {
+  game: string; // display name
+  gameId: string;
+  players: number;
+  location: string; // location id
+  tier: TierId;
+  billingCycle: BillingPeriodId;
+  ramGB: number;
+  mods: string[];
+  pid: number;
+  ramCid: number;
+  locationCid: number;
+  promo?: string;
+  currency?: string; // ISO 4217; the cart is priced in USD when absent
+};
+
+// buildlink's query parameters for one server
+const linkParams = (p: BuildLinkParams): Params => {
+  const params: Params = {
+    game: p.game,
+    gameid: p.gameId,
+    players: String(p.players),
+    location: p.location,
+    tier: p.tier,
+    billingcycle: p.billingCycle,
+    ram: String(p.ramGB),
+    mods: String(p.mods.length),
+    modlist: p.mods.join(","),
+    pid: String(p.pid),
+    ram_cid: String(p.ramCid),
+    location_cid: String(p.locationCid),
+  };
+  if (p.promo) params.promo = p.promo;
+  if (p.currency) params.currency = p.currency;
+  return params;
+};
+
+export const buildLink = (p: BuildLinkParams): Promise<BuildLinkResponse> =>
+  request({ handler: "buildlink", ...linkParams(p) }, (data) => parseBuildLinkResponse(data, "buildlink"));
+
+// One cart link for several servers: `items` is a JSON array of buildlink
+// parameter sets; the currency applies to the whole cart
+export const buildCartLink = (items: BuildLinkParams[], currency?: string): Promise<BuildLinkResponse> => {
+  const params: Params = {
+    handler: "buildcart",
+    items: JSON.stringify(items.map((p) => linkParams({ ...p, currency: undefined }))),
+  };
+  if (currency) params.currency = currency;
+  return request(params, (data) => parseBuildLinkResponse(data, "buildcart"));
+};
+
+// Checks the configuration on the worker and returns the cart link (src/pages/api/checkout.ts)
+export const checkout = (req: CheckoutRequest): Promise<CheckoutResponse> =>
+  post("/api/checkout", req, (data) => parseCheckoutResponse(data, "checkout"));
+
+// Same endpoint for the whole cart; answers with one cart link, or one per server without buildcart
+export const checkoutCart = (req: CartCheckoutRequest): Promise<CartCheckoutResponse> =>
+  post("/api/checkout", req, (data) => parseCartCheckoutResponse(data, "checkout"));
+
+// A whole catalog file as stored upstream, for the admin editor. Entries are
+// not parsed into storefront types, so unknown fields survive publishing.
+export const fetchCatalogFile = (file: string): Promise<Record<string, unknown>[]> =>
+  request({ handler: "pulldata", file }, (data) => parseArray(data, file, parseObject));
+
+// Replaces a catalog file upstream (server only: needs the publish token)
+export const pushCatalogFile = (file: string, entries: unknown[], token: string): Promise<unknown> => {
+  const path = `/?${new URLSearchParams({ handler: "pushdata", file })}`;
+  return send(`${API_BASE}${path}`, path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ data: entries }),
+  }, (data) => data);
+};
+
+export type PublishResult = { file: string; count: number };
+
+// Publishes one file through /api/admin/catalog. Sends the browser's admin
+// credentials, which the other /api calls deliberately omit.
+export const publishCatalog = (file: string, entries: unknown[]): Promise<PublishResult> =>
+  send("/api/admin/catalog", "/api/admin/catalog", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file, data: entries }),
+    credentials: "same-origin",
+  }, (data) => {
+    const o = parseObject(data, "publish");
+    return { file: String(o.file), count: Number(o.count) };
+  });
+
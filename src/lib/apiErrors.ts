@@ -0,0 +1,83 @@
+// Errors raised by the API client, one class per way a request can fail.
+import type { MessageKey, Translator } from "./i18n";
+
+export type ApiErrorKind = "network" | "http" | "envelope" | "schema";
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly path: string; // request path, e.g. "/?handler=pulldata&file=games.json"
+
+  constructor(kind: ApiErrorKind, path: string, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.path = path;
+  }
+}
+
+// The request never got a response (offline, DNS, CORS, aborted...)
+export class NetworkError extends ApiError {
+  constructor(path: string, cause: unknown) {
+    super("network", path, `Network error while requesting ${path}`, { cause });
+    this.name = "NetworkError";
+  }
+}
+
+// The server answered with a non-2xx status
+export class HttpError extends ApiError {
+  readonly status: number;
+  readonly serverMessage?: string; // error text from the body, when there is one
+  readonly body?: Record<string, unknown>; // the {ok: false, ...} envelope, e.g. a checkout rejection
+
+  constructor(path: string, status: number, serverMessage?: string, body?: Record<string, unknown>) {
+    super("http", path, serverMessage || `Request to ${path} failed with status ${status}`);
+    this.name = "HttpError";
+    this.status = status;
+    this.serverMessage = serverMessage;
+    this.body = body;
+  }
+}
+
+// The body was not a {ok, data} envelope, or the envelope reported ok: false
+export class EnvelopeError extends ApiError {
+  constructor(path: string, message: string) {
+    super("envelope", path, message);
+    this.name = "EnvelopeError";
+  }
+}
+
+// The payload did not match the expected type; `field` points at the offending value
+export class SchemaError extends ApiError {
+  readonly field: string;
+  readonly detail: string;
+
+  constructor(field: string, detail: string, path = "") {
+    super("schema", path, `Invalid data at ${field}: ${detail}`);
+    this.name = "SchemaError";
+    this.field = field;
+    this.detail = detail;
+  }
+}
+
+// HTTP statuses with their own message; the rest share errors.http
+const HTTP_MESSAGES: Partial<Record<number, MessageKey>> = {
+  429: "errors.http_429",
+  502: "errors.http_5xx",
+  503: "errors.http_5xx",
+  504: "errors.http_5xx",
+};
+
+// Short, customer-facing description of a failed request in the visitor's
+// language. A 404 gets the caller's fallback, which says what was missing.
+export const describeApiError = (e: unknown, t: Translator, fallback = t("errors.generic")): string => {
+  if (e instanceof NetworkError) return t("errors.network");
+  if (e instanceof HttpError && e.status === 404) return fallback;
+  if (e instanceof HttpError) return t(HTTP_MESSAGES[e.status] ?? "errors.http", { status: e.status });
+  if (e instanceof EnvelopeError) return t("errors.envelope");
+  if (e instanceof SchemaError) return t("errors.schema", { field: e.field });
+  return fallback;
+};
+
+// Untranslated detail, server text included, for staff-facing pages (the catalog admin)
+export const apiErrorDetail = (e: unknown, fallback: string): string =>
+  e instanceof Error && e.message ? e.message : fallback;
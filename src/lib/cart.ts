@@ -0,0 +1,112 @@
+// Servers collected before checkout. The cart lives in localStorage so it
+// survives reloads and spans games; every island on the page shares it.
+import { useEffect, useState } from "react";
+import type { CheckoutRequest } from "./checkout";
+import { roundCents } from "./pricing";
+import type { Quote } from "./pricing";
+import { parseCheckoutRequest } from "./schema";
+
+export type CartItem = {
+  id: string;
+  config: Omit<CheckoutRequest, "currency">; // the cart is checked out in one currency
+  gameName: string;
+  locationName: string;
+  quote: Quote; // USD, as priced when added; checkout prices every item again
+  addedAt: number;
+};
+
+export const MAX_CART_ITEMS = 10;
+
+// query parameter marking the configurator as editing a cart item
+export const CART_ITEM_PARAM = "cart";
+
+const STORAGE_KEY = "aleforge:cart";
+const CHANGE_EVENT = "aleforge:cart-change";
+
+// Drops entries that no longer match the current CheckoutRequest shape
+const parseCartItem = (value: unknown): CartItem | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const item = value as Partial<CartItem>;
+  try {
+    if (typeof item.id !== "string" || typeof item.quote?.totalMonthly !== "number") return null;
+    return {
+      id: item.id,
+      config: parseCheckoutRequest(item.config, "cart.config"),
+      gameName: String(item.gameName ?? ""),
+      locationName: String(item.locationName ?? ""),
+      quote: item.quote,
+      addedAt: Number(item.addedAt) || 0,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const readCart = (): CartItem[] => {
+  try {
+    const raw: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw.map(parseCartItem).filter((i): i is CartItem => i !== null).slice(0, MAX_CART_ITEMS);
+  } catch {
+    return [];
+  }
+};
+
+const writeCart = (items: CartItem[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items.slice(0, MAX_CART_ITEMS)));
+  } catch {
+    // storage disabled or full: the cart only lasts for this page
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Adds a new item, or replaces the one with `id`. Returns the item id, or
+// null when the cart is already full.
+export const saveCartItem = (item: Omit<CartItem, "id" | "addedAt">, id?: string): string | null => {
+  const items = readCart();
+  const index = id ? items.findIndex((i) => i.id === id) : -1;
+  if (index >= 0) {
+    items[index] = { ...item, id: items[index].id, addedAt: items[index].addedAt };
+    writeCart(items);
+    return items[index].id;
+  }
+  if (items.length >= MAX_CART_ITEMS) return null;
+  const added: CartItem = { ...item, id: newId(), addedAt: Date.now() };
+  writeCart([...items, added]);
+  return added.id;
+};
+
+export const removeCartItem = (id: string) => writeCart(readCart().filter((i) => i.id !== id));
+
+export const clearCart = () => writeCart([]);
+
+export type CartTotals = {
+  monthly: number; // sum of each item's monthly price
+  firstInvoice: number; // sum of each item's first invoice
+};
+
+export const cartTotals = (items: CartItem[]): CartTotals => ({
+  monthly: roundCents(items.reduce((sum, i) => sum + i.quote.totalMonthly, 0)),
+  firstInvoice: roundCents(items.reduce((sum, i) => sum + i.quote.firstTermTotal, 0)),
+});
+
+export const useCart = (): CartItem[] => {
+  const [items, setItems] = useState<CartItem[]>([]);
+  useEffect(() => {
+    const sync = () => setItems(readCart());
+    sync();
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+  return items;
+};
@@ -0,0 +1,105 @@
+// Catalog files edited in /admin: validation with the storefront's own
+// parsers, plus the per-entry diff shown before publishing. Entries are kept
+// as raw JSON so fields the storefront doesn't read survive a round trip.
+import { SchemaError } from "./apiErrors";
+import { parseGameInfo, parseLocationInfo, parsePlanInfo } from "./schema";
+
+export const CATALOG_FILES = ["games.json", "locations.json", "plans.json"] as const;
+
+export type CatalogFile = (typeof CATALOG_FILES)[number];
+
+export type CatalogEntry = Record<string, unknown>;
+
+export type Catalog = Record<CatalogFile, CatalogEntry[]>;
+
+export const isCatalogFile = (value: unknown): value is CatalogFile =>
+  (CATALOG_FILES as readonly unknown[]).includes(value);
+
+const PARSERS: Record<CatalogFile, (value: unknown, field: string) => unknown> = {
+  "games.json": parseGameInfo,
+  "locations.json": parseLocationInfo,
+  "plans.json": parsePlanInfo,
+};
+
+const label = (entry: CatalogEntry, index: number) =>
+  typeof entry.id === "string" && entry.id ? entry.id : `#${index + 1}`;
+
+// Every problem in one file, as readable messages. `gameIds` lets plans be
+// checked against the games they are restricted to.
+export const validateCatalogFile = (file: CatalogFile, entries: CatalogEntry[], gameIds?: string[]): string[] => {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  entries.forEach((entry, i) => {
+    try {
+      PARSERS[file](entry, `${file}[${label(entry, i)}]`);
+    } catch (e) {
+      problems.push(e instanceof SchemaError ? e.message : String(e));
+    }
+    if (typeof entry.id === "string" && entry.id) {
+      if (seen.has(entry.id)) problems.push(`${file}: id "${entry.id}" is used more than once`);
+      seen.add(entry.id);
+    }
+    if (file === "plans.json" && gameIds && Array.isArray(entry.games)) {
+      const unknown = entry.games.filter((g) => typeof g === "string" && !gameIds.includes(g));
+      if (unknown.length) problems.push(`${file}[${label(entry, i)}]: unknown games ${unknown.join(", ")}`);
+    }
+  });
+
+  return problems;
+};
+
+export const validateCatalog = (catalog: Catalog): Partial<Record<CatalogFile, string[]>> => {
+  const gameIds = catalog["games.json"].map((g) => g.id).filter((id): id is string => typeof id === "string");
+  const result: Partial<Record<CatalogFile, string[]>> = {};
+  for (const file of CATALOG_FILES) {
+    const problems = validateCatalogFile(file, catalog[file], gameIds);
+    if (problems.length) result[file] = problems;
+  }
+  return result;
+};
+
+export type FieldChange = { path: string; before: unknown; after: unknown };
+
+export type EntryDiff =
+  | { kind: "added"; id: string; entry: CatalogEntry }
+  | { kind: "removed"; id: string; entry: CatalogEntry }
+  | { kind: "changed"; id: string; changes: FieldChange[] };
+
+// nested objects become dotted paths; arrays and primitives are leaves
+const flatten = (value: unknown, prefix = "", out: Record<string, unknown> = {}) => {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    for (const [k, v] of Object.entries(value)) flatten(v, prefix ? `${prefix}.${k}` : k, out);
+  } else if (prefix) {
+    out[prefix] = value;
+  }
+  return out;
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Entries are matched by id; entries without one are matched by position
+export const diffCatalogFile = (before: CatalogEntry[], after: CatalogEntry[]): EntryDiff[] => {
+  const key = (e: CatalogEntry, i: number) => label(e, i);
+  const old = new Map(before.map((e, i) => [key(e, i), e]));
+  const next = new Map(after.map((e, i) => [key(e, i), e]));
+  const diffs: EntryDiff[] = [];
+
+  for (const [id, entry] of next) {
+    const previous = old.get(id);
+    if (!previous) {
+      diffs.push({ kind: "added", id, entry });
+      continue;
+    }
+    const a = flatten(previous);
+    const b = flatten(entry);
+    const changes = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+      .filter((path) => !same(a[path], b[path]))
+      .map((path) => ({ path, before: a[path], after: b[path] }));
+    if (changes.length) diffs.push({ kind: "changed", id, changes });
+  }
+  for (const [id, entry] of old) {
+    if (!next.has(id)) diffs.push({ kind: "removed", id, entry });
+  }
+  return diffs;
+};
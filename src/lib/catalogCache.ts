@@ -0,0 +1,178 @@
+// Caches upstream catalog payloads on the worker, in a KV namespace when one is
+// bound and otherwise in the data center's Cache API (caches.default).
+//
+// Entries are never expired by the store itself: an entry younger than
+// `ttlSeconds` is served as is, one younger than ttl + `swrSeconds` is served
+// while a refresh runs in the background, and anything older is refetched
+// before answering.
+// When the upstream API fails, the last good snapshot is served whatever its age.
+
+// The subset of Cloudflare's KVNamespace used here
+export type KVStore = {
+  get(key: string, type: "json"): Promise<unknown>;
+  put(key: string, value: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: { name: string }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+};
+
+// The subset of the Workers Cache API (caches.default) used here
+export type CacheApi = {
+  match(request: string): Promise<{ json(): Promise<unknown> } | undefined>;
+  put(request: string, response: Response): Promise<void>;
+};
+
+export type CacheBackend = {
+  kv?: KVStore; // preferred: shared by every data center
+  cache?: CacheApi; // used without a KV binding; without either every call goes upstream
+};
+
+export type CacheOptions = CacheBackend & {
+  ttlSeconds: number;
+  swrSeconds: number;
+  waitUntil?: (promise: Promise<unknown>) => void;
+  // refreshes already running for this request, so repeated misses share one
+  // fetch. Per request: Workers don't support sharing promises across requests.
+  inflight?: Map<string, Promise<unknown>>;
+};
+
+type Entry<T> = {
+  data: T;
+  fetchedAt: number; // epoch ms; 0 once purged
+};
+
+export const CACHE_PREFIX = "catalog:";
+
+type Store = {
+  get: <T,>(key: string) => Promise<Entry<T> | null>;
+  put: (key: string, entry: Entry<unknown>) => Promise<void>;
+};
+
+const kvStore = (kv: KVStore): Store => ({
+  get: async <T,>(key: string) => (await kv.get(CACHE_PREFIX + key, "json")) as Entry<T> | null,
+  put: (key, entry) => kv.put(CACHE_PREFIX + key, JSON.stringify(entry)),
+});
+
+// Cache API entries are keyed by URL and need an expiry. The long max-age keeps
+// the snapshot around as a fallback; freshness is still judged by fetchedAt.
+const CACHE_API_ORIGIN = "https://catalog-cache.internal/";
+const SNAPSHOT_MAX_AGE = 30 * 24 * 60 * 60;
+
+const cacheApiStore = (cache: CacheApi): Store => ({
+  get: async <T,>(key: string) => {
+    const res = await cache.match(CACHE_API_ORIGIN + encodeURIComponent(key));
+    return res ? ((await res.json()) as Entry<T>) : null;
+  },
+  put: (key, entry) =>
+    cache.put(
+      CACHE_API_ORIGIN + encodeURIComponent(key),
+      new Response(JSON.stringify(entry), {
+        headers: { "Content-Type": "application/json", "Cache-Control": `max-age=${SNAPSHOT_MAX_AGE}` },
+      })
+    ),
+});
+
+const openStore = ({ kv, cache }: CacheBackend): Store | null =>
+  kv ? kvStore(kv) : cache ? cacheApiStore(cache) : null;
+
+const refresh = <T,>(key: string, load: () => Promise<T>, store: Store, opts: CacheOptions): Promise<T> => {
+  const { inflight } = opts;
+  const running = inflight?.get(key) as Promise<T> | undefined;
+  if (running) return running;
+
+  const p = (async () => {
+    const data = await load();
+    const entry: Entry<T> = { data, fetchedAt: Date.now() };
+    // best effort: a failed write (e.g. KV's one write per second per key) must
+    // not fail a request whose upstream fetch succeeded
+    const write = store
+      .put(key, entry)
+      .catch((e) => console.error(`Catalog cache write failed for ${key}:`, e));
+    if (opts.waitUntil) opts.waitUntil(write);
+    return data;
+  })().finally(() => inflight?.delete(key));
+
+  inflight?.set(key, p);
+  return p;
+};
+
+export const cached = async <T,>(key: string, load: () => Promise<T>, opts: CacheOptions): Promise<T> => {
+  const store = openStore(opts);
+  if (!store) return load();
+
+  const entry = await store.get<T>(key).catch(() => null);
+  const age = entry ? (Date.now() - entry.fetchedAt) / 1000 : Infinity;
+
+  if (entry && age < opts.ttlSeconds) return entry.data;
+
+  if (entry && age < opts.ttlSeconds + opts.swrSeconds) {
+    const background = refresh(key, load, store, opts).catch((e) => console.error(`Catalog refresh failed for ${key}:`, e));
+    if (opts.waitUntil) opts.waitUntil(background);
+    return entry.data;
+  }
+
+  try {
+    return await refresh(key, load, store, opts);
+  } catch (e) {
+    if (!entry) throw e;
+    console.error(`Upstream failed for ${key}, serving snapshot from ${new Date(entry.fetchedAt).toISOString()}:`, e);
+    return entry.data;
+  }
+};
+
+const listKeys = async (kv: KVStore, prefix: string): Promise<string[]> => {
+  const names: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix, cursor });
+    names.push(...page.keys.map((k) => k.name.slice(CACHE_PREFIX.length)));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return names;
+};
+
+// The Cache API can't list its entries, so the keys serverCatalog uses are
+// derived from the cached game list
+const knownKeys = async (store: Store): Promise<string[]> => {
+  const games = ((await store.get<{ id: string }[]>("games.json"))?.data ?? []).map((g) => g.id);
+  return [
+    "games.json",
+    "locations.json",
+    "currencies.json",
+    ...games.flatMap((id) => [`plans.json:${id}`, `mods.json:${id}`]),
+  ];
+};
+
+const cachedKeys = (backend: CacheBackend, store: Store, prefix = "") =>
+  backend.kv
+    ? listKeys(backend.kv, CACHE_PREFIX + prefix)
+    : knownKeys(store).then((keys) => keys.filter((k) => k.startsWith(prefix)));
+
+const markStale = async (store: Store, keys: string[]): Promise<string[]> => {
+  const purged: string[] = [];
+  for (const key of keys) {
+    const entry = await store.get(key);
+    if (!entry) continue;
+    await store.put(key, { ...entry, fetchedAt: 0 });
+    purged.push(key);
+  }
+  return purged;
+};
+
+// Marks entries as stale instead of deleting them, so the snapshot stays
+// available as a fallback. Returns the keys that were invalidated. Cache API
+// entries are per data center: only the one handling the purge is reached.
+export const purge = async (backend: CacheBackend, keys?: string[]): Promise<string[]> => {
+  const store = openStore(backend);
+  if (!store) return [];
+  return markStale(store, keys?.length ? keys : await cachedKeys(backend, store));
+};
+
+// Purges every entry loaded from one file, e.g. all "plans.json:<game>" keys
+export const purgeFile = async (backend: CacheBackend, file: string): Promise<string[]> => {
+  const store = openStore(backend);
+  if (!store) return [];
+  return markStale(store, await cachedKeys(backend, store, file));
+};
@@ -0,0 +1,26 @@
+// Development stand-in for publishing: catalog files are written to
+// src/mocks/catalog/. A file that was never saved is read from `fallback`.
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parseArray, parseObject } from "./schema";
+import type { CatalogStore } from "./catalogStore";
+
+export const CATALOG_DIR = join(process.cwd(), "src", "mocks", "catalog");
+
+export const fileStore = (fallback: CatalogStore): CatalogStore => ({
+  name: "src/mocks/catalog (local)",
+  canPublish: true,
+  read: async (file) => {
+    let text: string;
+    try {
+      text = await readFile(join(CATALOG_DIR, file), "utf8");
+    } catch {
+      return fallback.read(file);
+    }
+    return parseArray(JSON.parse(text), file, parseObject);
+  },
+  write: async (file, entries) => {
+    await mkdir(CATALOG_DIR, { recursive: true });
+    await writeFile(join(CATALOG_DIR, file), `${JSON.stringify(entries, null, 2)}\n`);
+  },
+});
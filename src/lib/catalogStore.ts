@@ -0,0 +1,33 @@
+// Where the admin editor reads and publishes catalog files: the upstream API
+// (pulldata / pushdata), or during development without a publish token, JSON
+// files under src/mocks/catalog/ (see catalogFileStore.ts). Publishing upstream
+// needs the pushdata handler and CATALOG_PUBLISH_TOKEN.
+import { fetchCatalogFile, pushCatalogFile } from "./api";
+import type { CatalogEntry, CatalogFile } from "./catalogAdmin";
+
+export type CatalogStore = {
+  name: string; // shown in the editor
+  canPublish: boolean; // false disables publishing in the editor
+  read(file: CatalogFile): Promise<CatalogEntry[]>;
+  write(file: CatalogFile, entries: CatalogEntry[]): Promise<void>;
+};
+
+export const upstreamStore = (publishToken?: string): CatalogStore => ({
+  name: "upstream API",
+  canPublish: Boolean(publishToken),
+  read: (file) => fetchCatalogFile(file),
+  write: async (file, entries) => {
+    if (!publishToken) throw new Error("Publishing is not configured (CATALOG_PUBLISH_TOKEN)");
+    await pushCatalogFile(file, entries, publishToken);
+  },
+});
+
+export const catalogStore = async (locals: App.Locals): Promise<CatalogStore> => {
+  const token = locals.runtime?.env?.CATALOG_PUBLISH_TOKEN;
+  // the file store uses node:fs; production builds drop this branch
+  if (import.meta.env.DEV && !token) {
+    const { fileStore } = await import("./catalogFileStore");
+    return fileStore(upstreamStore());
+  }
+  return upstreamStore(token);
+};
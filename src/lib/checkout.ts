@@ -0,0 +1,135 @@
+import type { BuildLinkParams } from "./api";
+import { HttpError, describeApiError } from "./apiErrors";
+import type { Translator } from "./i18n";
+import type { BillingPeriodId, Quote } from "./pricing";
+import type { ResourceAllocation } from "./sizing";
+import type { ServerConfig, TierId } from "./types";
+import { VALIDATION_CODES } from "./validation";
+
+// What the configurator posts to /api/checkout
+export type CheckoutRequest = {
+  gameId: string;
+  players: number;
+  locationId: string;
+  tier: TierId;
+  billingPeriod: BillingPeriodId;
+  mods: string[]; // mod ids
+  promoCode?: string;
+  currency?: string; // ISO 4217, defaults to USD
+};
+
+export type CheckoutResponse = {
+  cartLink: string;
+  quote: Quote; // recomputed on the server, in USD
+};
+
+// What the cart posts to /api/checkout: several servers at once
+export type CartCheckoutRequest = {
+  items: CheckoutRequest[]; // each item's own currency is ignored
+  currency?: string;
+};
+
+export type CartCheckoutResponse = {
+  // one link for the whole cart (buildcart), or one per item in request order
+  // while the upstream API has no buildcart
+  cartLinks: string[];
+  quotes: Quote[]; // one per item, in request order
+};
+
+// Why /api/checkout turned a request down: validateConfig's codes plus the
+// checks only the worker makes. `validation.<code>` in the message catalogs.
+export const CHECKOUT_ERROR_CODES = [
+  ...VALIDATION_CODES,
+  "game_unknown",
+  "currency_unsupported",
+  "promo_invalid",
+  "promo_ineligible",
+  "cart_size",
+] as const;
+export type CheckoutErrorCode = (typeof CHECKOUT_ERROR_CODES)[number];
+
+// The body of a 400 from /api/checkout; `item` is the index of the cart item
+export type CheckoutRejection = {
+  field: string;
+  code: CheckoutErrorCode;
+  params: Record<string, string | number>;
+  error: string; // English, for logs
+  item?: number;
+};
+
+const isCheckoutErrorCode = (value: unknown): value is CheckoutErrorCode =>
+  typeof value === "string" && (CHECKOUT_ERROR_CODES as readonly string[]).includes(value);
+
+const isParams = (value: unknown): value is Record<string, string | number> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.values(value).every((v) => typeof v === "string" || typeof v === "number");
+
+// The visitor-facing text for a failed checkout: the worker's rejection when
+// it sent one, otherwise a description of the failed request
+export const describeCheckoutError = (e: unknown, t: Translator): string => {
+  const body = e instanceof HttpError ? e.body : undefined;
+  if (!body || !isCheckoutErrorCode(body.code)) return describeApiError(e, t, t("errors.checkout"));
+  const text = t(`validation.${body.code}`, isParams(body.params) ? body.params : undefined);
+  return typeof body.item === "number" ? t("cart.itemError", { item: body.item + 1, error: text }) : text;
+};
+
+export type ProductIds = {
+  pid: number; // billing product
+  ramCid: number; // configurable option: RAM
+  locationCid: number; // configurable option: location
+};
+
+// Budget servers are sold as the standard product with less RAM; only
+// premium has its own product and configurable options.
+export const resolveProductIds = (serverConfig: ServerConfig, tier: TierId): ProductIds =>
+  tier === "premium"
+    ? {
+        pid: serverConfig.premium_PID,
+        ramCid: serverConfig.premium_RAM_CID,
+        locationCid: serverConfig.premium_Location_CID,
+      }
+    : {
+        pid: serverConfig.standard_PID,
+        ramCid: serverConfig.standard_RAM_CID,
+        locationCid: serverConfig.standard_Location_CID,
+      };
+
+export const buildCheckoutParams = ({
+  game,
+  players,
+  locationId,
+  tier,
+  billingPeriod,
+  mods,
+  resources,
+  promoCode,
+  currency,
+}: {
+  game: { id: string; name: string; serverConfig?: ServerConfig };
+  players: number;
+  locationId: string;
+  tier: TierId;
+  billingPeriod: BillingPeriodId;
+  mods: string[];
+  resources: Pick<ResourceAllocation, "ramGB">;
+  promoCode?: string;
+  currency?: string;
+}): BuildLinkParams => {
+  if (!game.serverConfig) {
+    throw new Error(`${game.name} is not available for online checkout yet`);
+  }
+  return {
+    game: game.name,
+    gameId: game.id,
+    players,
+    location: locationId,
+    tier,
+    billingCycle: billingPeriod,
+    ramGB: resources.ramGB,
+    mods,
+    ...resolveProductIds(game.serverConfig, tier),
+    promo: promoCode,
+    currency,
+  };
+};
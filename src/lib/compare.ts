@@ -0,0 +1,79 @@
+// Games and plans picked for the comparison page. The selection lives in
+// localStorage so every island on the page (and other tabs) sees the same list.
+import { useEffect, useState } from "react";
+
+export type CompareItem = {
+  gameId: string;
+  planId?: string; // absent => compare the game across all tiers
+};
+
+export const MAX_COMPARE = 4;
+
+const STORAGE_KEY = "aleforge:compare";
+const CHANGE_EVENT = "aleforge:compare-change";
+
+export const compareKey = (item: CompareItem) => (item.planId ? `${item.gameId}:${item.planId}` : item.gameId);
+
+// "minecraft,minecraft:iron-forge" <-> items
+export const parseCompareItems = (value: string | null): CompareItem[] => {
+  if (!value) return [];
+  const seen = new Set<string>();
+  const items: CompareItem[] = [];
+  for (const part of value.split(",")) {
+    const [gameId, planId] = part.trim().split(":");
+    if (!gameId) continue;
+    const item: CompareItem = planId ? { gameId, planId } : { gameId };
+    if (seen.has(compareKey(item))) continue;
+    seen.add(compareKey(item));
+    items.push(item);
+  }
+  return items.slice(0, MAX_COMPARE);
+};
+
+export const compareHref = (items: CompareItem[]) =>
+  `/compare?items=${encodeURIComponent(items.map(compareKey).join(","))}`;
+
+export const readCompareList = (): CompareItem[] => {
+  try {
+    return parseCompareItems(window.localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return [];
+  }
+};
+
+export const writeCompareList = (items: CompareItem[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, items.slice(0, MAX_COMPARE).map(compareKey).join(","));
+  } catch {
+    // storage disabled: the selection just won't persist
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+// Adds or removes an item; returns false when the list is already full
+export const toggleCompareItem = (item: CompareItem): boolean => {
+  const items = readCompareList();
+  const key = compareKey(item);
+  if (items.some((i) => compareKey(i) === key)) {
+    writeCompareList(items.filter((i) => compareKey(i) !== key));
+    return true;
+  }
+  if (items.length >= MAX_COMPARE) return false;
+  writeCompareList([...items, item]);
+  return true;
+};
+
+export const useCompareList = (): CompareItem[] => {
+  const [items, setItems] = useState<CompareItem[]>([]);
+  useEffect(() => {
+    const sync = () => setItems(readCompareList());
+    sync();
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+  return items;
+};
@@ -1,45 +1,23 @@
-export const API_BASE = import.meta.env.PUBLIC_API_BASE || "";
+// PUBLIC_MOCK_API=true points the site at the dev server's mock API
+// (src/lib/mockApiPlugin.js) instead of PUBLIC_API_BASE, for working offline.
+// Builds ignore it: the mock API only exists on the dev server.
+export const MOCK_API = import.meta.env.DEV && import.meta.env.PUBLIC_MOCK_API === "true";
 
-// Utility function to transform game data to the desired format
-export const transformGameConfig = (gameData: any) => {
-  return {
-    ok: true,
-    data: {
-      name: gameData.name,
-      minPlayers: gameData.minPlayers,
-      maxPlayers: gameData.maxPlayers,
-      minMods: gameData.minMods,
-      maxMods: gameData.maxMods,
-      serverConfig: gameData.serverConfig
-    }
-  };
-};
+// Same path as MOCK_API_PATH in mockApiPlugin.js. Server-side fetches need an
+// absolute URL, so they use the origin the plugin records once the dev server listens.
+const mockApiBase = () =>
+  typeof window === "undefined" ? `${globalThis.process?.env.MOCK_API_ORIGIN ?? ""}/mock-api` : "/mock-api";
 
-// Utility function to fetch and transform game configuration
-export const fetchGameConfig = async (gameName: string) => {
-  try {
-    const response = await fetch(`${API_BASE}/?handler=pulldata&file=games.json`);
-    const result = await response.json();
-    
-    // Handle the wrapped response format {ok: boolean, data: T}
-    const gamesData = result.ok ? result.data : result;
-    
-    // Find the specific game
-    const game = Array.isArray(gamesData) 
-      ? gamesData.find((g: any) => g.name === gameName)
-      : gamesData;
-    
-    if (!game) {
-      throw new Error(`Game ${gameName} not found`);
-    }
-    
-    // Transform to the desired format
-    return transformGameConfig(game);
-  } catch (error) {
-    console.error('Error fetching game config:', error);
-    return {
-      ok: false,
-      data: null
-    };
-  }
-};
\ No newline at end of file
+export const API_BASE = MOCK_API ? mockApiBase() : import.meta.env.PUBLIC_API_BASE || "";
+
+// Combined cart checkout needs the upstream buildcart handler, which the live
+// API doesn't serve yet; PUBLIC_CART_CHECKOUT=true turns it on. The mock API has
+// it. Without it the cart checks out each server through its own buildlink link.
+export const CART_CHECKOUT = MOCK_API || import.meta.env.PUBLIC_CART_CHECKOUT === "true";
+
+// Until the upstream API serves handler=promocode, set this to an empty value in
+// development to have promo codes answered by the mock API while the rest stays
+// live. Builds treat an empty value as unset and use API_BASE.
+const PROMO_OVERRIDE = import.meta.env.PUBLIC_PROMO_API_BASE;
+export const PROMO_API_BASE =
+  MOCK_API || (import.meta.env.DEV && PROMO_OVERRIDE === "") ? mockApiBase() : PROMO_OVERRIDE || API_BASE;
@@ -0,0 +1,90 @@
+// Display currencies. Every price is computed in USD (src/lib/pricing.ts) and
+// converted with the rates from currencies.json only when it is shown. The
+// visitor's choice is kept in localStorage and shared by every island.
+import { useEffect, useState } from "react";
+import { fetchCurrencies } from "./api";
+import { roundCents } from "./pricing";
+import type { CurrencyInfo } from "./types";
+
+export const BASE_CURRENCY: CurrencyInfo = { code: "USD", rate: 1, name: "US Dollar", locale: "en-US" };
+
+const STORAGE_KEY = "aleforge:currency";
+const CHANGE_EVENT = "aleforge:currency-change";
+
+export const convert = (amountUsd: number, currency: CurrencyInfo) => roundCents(amountUsd * currency.rate);
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// e.g. formatMoney(12.5, eur) -> "11,38 €" with the de-DE locale
+export const formatMoney = (amountUsd: number, currency: CurrencyInfo) => {
+  const key = `${currency.locale ?? ""}|${currency.code}`;
+  let fmt = formatters.get(key);
+  if (!fmt) {
+    fmt = new Intl.NumberFormat(currency.locale, { style: "currency", currency: currency.code });
+    formatters.set(key, fmt);
+  }
+  return fmt.format(convert(amountUsd, currency));
+};
+
+// USD first, then the catalog's currencies; a catalog entry for USD is ignored
+export const withBaseCurrency = (currencies: CurrencyInfo[]): CurrencyInfo[] => [
+  BASE_CURRENCY,
+  ...currencies.filter((c) => c.code !== BASE_CURRENCY.code),
+];
+
+// One request per page load, shared by every island; falls back to USD only
+let loading: Promise<CurrencyInfo[]> | null = null;
+const loadCurrencies = () =>
+  (loading ??= fetchCurrencies().then(withBaseCurrency, (e) => {
+    console.error("Failed to load currencies:", e);
+    return [BASE_CURRENCY];
+  }));
+
+const readCurrencyCode = (): string | null => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const writeCurrencyCode = (code: string) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, code);
+  } catch {
+    // storage disabled: the choice only lasts for this page
+  }
+  window.dispatchEvent(new CustomEvent(CHANGE_EVENT, { detail: code }));
+};
+
+// The visitor's currency. Renders USD on the server and until the rates have
+// loaded, then switches to the stored choice.
+export const useCurrency = () => {
+  const [currencies, setCurrencies] = useState<CurrencyInfo[]>([BASE_CURRENCY]);
+  const [code, setCode] = useState(BASE_CURRENCY.code);
+
+  useEffect(() => {
+    let active = true;
+    loadCurrencies().then((list) => {
+      if (active) setCurrencies(list);
+    });
+    const sync = () => setCode(readCurrencyCode() ?? BASE_CURRENCY.code);
+    sync();
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      active = false;
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+
+  // an unknown or no longer offered code shows USD
+  const currency = currencies.find((c) => c.code === code) ?? BASE_CURRENCY;
+  return {
+    currency,
+    currencies,
+    setCurrency: writeCurrencyCode,
+    format: (amountUsd: number) => formatMoney(amountUsd, currency),
+  };
+};
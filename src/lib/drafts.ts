@@ -0,0 +1,112 @@
+// Unfinished configurator selections, one per game, so a visitor who reloads or
+// leaves can pick up where they left off. Drafts live in localStorage and carry
+// a schema version; older drafts are migrated forward or dropped.
+import { useEffect, useState } from "react";
+import { findBillingPeriod } from "./pricing";
+import type { SharedConfig } from "./shareLink";
+import { isTierId } from "./sizing";
+
+export type ConfigDraft = SharedConfig & {
+  gameId: string;
+  gameName: string;
+  promoCode?: string;
+  savedAt: number;
+};
+
+// bump when ConfigDraft changes shape, and add a migration from the old version
+export const DRAFT_VERSION = 1;
+
+// Upgrades a stored draft by one version, keyed by the version it upgrades
+// from. Drafts with no path to DRAFT_VERSION are dropped.
+const MIGRATIONS: Record<number, (draft: Record<string, unknown>) => Record<string, unknown>> = {};
+
+// most recently saved drafts kept; older ones are dropped
+export const MAX_DRAFTS = 4;
+
+// query parameter telling the configurator to resume the game's draft
+export const RESUME_PARAM = "resume";
+
+const STORAGE_KEY = "aleforge:drafts";
+const CHANGE_EVENT = "aleforge:drafts-change";
+
+const migrateDraft = (value: unknown): ConfigDraft | null => {
+  if (typeof value !== "object" || value === null) return null;
+  let draft = value as Record<string, unknown>;
+  let version = typeof draft.version === "number" ? draft.version : 0;
+  while (version < DRAFT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    draft = migrate(draft);
+    version += 1;
+  }
+  if (version !== DRAFT_VERSION) return null; // written by a newer build
+
+  const { gameId, gameName, players, locationId, tier, billingPeriod, mods, promoCode, savedAt } = draft;
+  if (typeof gameId !== "string" || !gameId) return null;
+  if (typeof players !== "number" || !Number.isFinite(players)) return null;
+  if (typeof locationId !== "string" || typeof tier !== "string" || !isTierId(tier)) return null;
+  const period = findBillingPeriod(typeof billingPeriod === "string" ? billingPeriod : undefined);
+  if (!period || !Array.isArray(mods) || !mods.every((m) => typeof m === "string")) return null;
+  return {
+    gameId,
+    gameName: typeof gameName === "string" ? gameName : gameId,
+    players,
+    locationId,
+    tier,
+    billingPeriod: period.id,
+    mods,
+    promoCode: typeof promoCode === "string" && promoCode ? promoCode : undefined,
+    savedAt: typeof savedAt === "number" ? savedAt : 0,
+  };
+};
+
+// Newest first
+export const readDrafts = (): ConfigDraft[] => {
+  try {
+    const raw: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .map(migrateDraft)
+      .filter((d): d is ConfigDraft => d !== null)
+      .sort((a, b) => b.savedAt - a.savedAt)
+      .slice(0, MAX_DRAFTS);
+  } catch {
+    return [];
+  }
+};
+
+export const readDraft = (gameId: string) => readDrafts().find((d) => d.gameId === gameId) ?? null;
+
+const writeDrafts = (drafts: ConfigDraft[]) => {
+  try {
+    const stored = drafts.slice(0, MAX_DRAFTS).map((d) => ({ ...d, version: DRAFT_VERSION }));
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // storage disabled or full: drafts just won't persist
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+// Replaces the game's draft and moves it to the front
+export const saveDraft = (draft: Omit<ConfigDraft, "savedAt">) =>
+  writeDrafts([{ ...draft, savedAt: Date.now() }, ...readDrafts().filter((d) => d.gameId !== draft.gameId)]);
+
+export const discardDraft = (gameId: string) => {
+  const drafts = readDrafts();
+  if (drafts.some((d) => d.gameId === gameId)) writeDrafts(drafts.filter((d) => d.gameId !== gameId));
+};
+
+export const useDrafts = (): ConfigDraft[] => {
+  const [drafts, setDrafts] = useState<ConfigDraft[]>([]);
+  useEffect(() => {
+    const sync = () => setDrafts(readDrafts());
+    sync();
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+  return drafts;
+};
@@ -0,0 +1,118 @@
+// Filter and sort state for the games grid. It lives in the query string so a
+// filtered view can be linked, e.g. /?tags=survival&players=20&sort=price
+import type { GameInfo } from "./types";
+import { modsRequired, modsSupported } from "./validation";
+
+export type ModFilter = "any" | "supported" | "none";
+
+// labels are in the message catalogs as games.sort.<id>
+export const SORT_OPTIONS = ["featured", "popularity", "name", "price"] as const;
+
+export type SortId = (typeof SORT_OPTIONS)[number];
+
+export type GameFilters = {
+  q: string;
+  players?: number; // supports at least this many players
+  mods: ModFilter;
+  priceMin?: number; // starting price per month, USD
+  priceMax?: number; // USD
+  tags: string[]; // a game matches when it has any of them
+  sort: SortId;
+};
+
+export const DEFAULT_FILTERS: GameFilters = { q: "", mods: "any", tags: [], sort: "featured" };
+
+// query parameter names
+const KEYS = {
+  q: "q",
+  players: "players",
+  mods: "mods",
+  priceMin: "minprice",
+  priceMax: "maxprice",
+  tags: "tags",
+  sort: "sort",
+} as const;
+
+const isSortId = (v: string): v is SortId => (SORT_OPTIONS as readonly string[]).includes(v);
+const isModFilter = (v: string): v is ModFilter => v === "any" || v === "supported" || v === "none";
+
+const readNumber = (params: URLSearchParams, key: string) => {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === "") return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+// Unknown or malformed values are ignored rather than reported; these links
+// come from marketing pages, not from users.
+export const readGameFilters = (params: URLSearchParams): GameFilters => {
+  const mods = params.get(KEYS.mods) ?? "";
+  const sort = params.get(KEYS.sort) ?? "";
+  const players = readNumber(params, KEYS.players);
+  return {
+    q: params.get(KEYS.q) ?? "",
+    players: players === undefined ? undefined : Math.round(players),
+    mods: isModFilter(mods) ? mods : DEFAULT_FILTERS.mods,
+    priceMin: readNumber(params, KEYS.priceMin),
+    priceMax: readNumber(params, KEYS.priceMax),
+    tags: Array.from(
+      new Set((params.get(KEYS.tags) ?? "").split(",").map((t) => t.trim().toLowerCase()).filter(Boolean))
+    ),
+    sort: isSortId(sort) ? sort : DEFAULT_FILTERS.sort,
+  };
+};
+
+// Writes only what differs from the defaults so unfiltered URLs stay clean
+export const writeGameFilters = (params: URLSearchParams, f: GameFilters) => {
+  const put = (key: string, value: string | undefined) =>
+    value ? params.set(key, value) : params.delete(key);
+  put(KEYS.q, f.q.trim());
+  put(KEYS.players, f.players === undefined ? undefined : String(f.players));
+  put(KEYS.mods, f.mods === DEFAULT_FILTERS.mods ? undefined : f.mods);
+  put(KEYS.priceMin, f.priceMin === undefined ? undefined : String(f.priceMin));
+  put(KEYS.priceMax, f.priceMax === undefined ? undefined : String(f.priceMax));
+  put(KEYS.tags, f.tags.join(","));
+  put(KEYS.sort, f.sort === DEFAULT_FILTERS.sort ? undefined : f.sort);
+};
+
+export const hasActiveFilters = (f: GameFilters) =>
+  f.q.trim() !== "" ||
+  f.players !== undefined ||
+  f.mods !== "any" ||
+  f.priceMin !== undefined ||
+  f.priceMax !== undefined ||
+  f.tags.length > 0;
+
+// Every tag used in the catalog, for the facet chips
+export const catalogTags = (games: GameInfo[]) =>
+  Array.from(new Set(games.flatMap((g) => (g.tags ?? []).map((t) => t.toLowerCase())))).sort();
+
+export const applyGameFilters = (
+  games: GameInfo[],
+  f: GameFilters,
+  priceOf: (game: GameInfo) => number
+): GameInfo[] => {
+  const term = f.q.trim().toLowerCase();
+  const matches = games.filter((g) => {
+    if (term && !g.name.toLowerCase().includes(term)) return false;
+    if (f.players !== undefined && g.maxPlayers < f.players) return false;
+    if (f.mods === "supported" && !modsSupported(g)) return false;
+    if (f.mods === "none" && modsRequired(g)) return false;
+    if (f.tags.length && !(g.tags ?? []).some((t) => f.tags.includes(t.toLowerCase()))) return false;
+    const price = priceOf(g);
+    if (f.priceMin !== undefined && price < f.priceMin) return false;
+    if (f.priceMax !== undefined && price > f.priceMax) return false;
+    return true;
+  });
+
+  switch (f.sort) {
+    case "name":
+      return matches.sort((a, b) => a.name.localeCompare(b.name));
+    case "price":
+      return matches.sort((a, b) => priceOf(a) - priceOf(b));
+    case "popularity":
+      return matches.sort((a, b) => (b.popularity ?? 0) - (a.popularity ?? 0));
+    default:
+      return matches; // catalog order
+  }
+};
@@ -0,0 +1,101 @@
+// UI translations. Message catalogs live in src/locales/<locale>.json; en.json
+// is the reference every other catalog is checked against at build time
+// (src/lib/i18nCheckIntegration.js). Missing messages fall back to English.
+//
+// Non-default locales are served under a prefix (/de/game/minecraft); the
+// middleware strips it and hands the page `Astro.locals.locale`.
+import de from "../locales/de.json";
+import en from "../locales/en.json";
+import type { PlanInfo } from "./types";
+
+export const LOCALES = ["en", "de"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  de: "Deutsch",
+};
+
+// set by the language switcher; wins over Accept-Language
+export const LOCALE_COOKIE = "lang";
+
+export type MessageKey = keyof typeof en;
+
+// "plans.backups" for the pair plans.backups_one / plans.backups_other
+export type PluralKey = {
+  [K in MessageKey]: K extends `${infer Base}_one` ? Base : never;
+}[MessageKey];
+
+type Vars = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Partial<Record<MessageKey, string>>> = { en, de };
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+
+// "{count} players" + {count: 3} -> "3 players"; unknown placeholders are left as is
+const interpolate = (message: string, vars?: Vars) =>
+  vars ? message.replace(/\{(\w+)\}/g, (m, name: string) => (name in vars ? String(vars[name]) : m)) : message;
+
+export type Translator = {
+  (key: MessageKey, vars?: Vars): string;
+  plural: (key: PluralKey, count: number, vars?: Vars) => string;
+  locale: Locale;
+};
+
+const translators = new Map<Locale, Translator>();
+
+export const getTranslator = (locale: Locale = DEFAULT_LOCALE): Translator => {
+  const cachedT = translators.get(locale);
+  if (cachedT) return cachedT;
+
+  const catalog = CATALOGS[locale];
+  const rules = new Intl.PluralRules(locale);
+  const t = ((key: MessageKey, vars?: Vars) => interpolate(catalog[key] ?? en[key] ?? key, vars)) as Translator;
+  t.plural = (key, count, vars) => {
+    // catalogs only carry the "one" and "other" forms
+    const form = rules.select(count) === "one" ? "one" : "other";
+    return t(`${key}_${form}` as MessageKey, { count, ...vars });
+  };
+  t.locale = locale;
+  translators.set(locale, t);
+  return t;
+};
+
+// "/game/minecraft" -> "/de/game/minecraft"; the default locale has no prefix
+export const localePath = (locale: Locale, path: string) => {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === "/" || path.startsWith("/?") ? `/${locale}${path.slice(1)}` : `/${locale}${path}`;
+};
+
+// "/de/game/minecraft" -> { locale: "de", path: "/game/minecraft" }
+export const splitLocalePath = (pathname: string): { locale: Locale; path: string } => {
+  const [, first = "", ...rest] = pathname.split("/");
+  if (first !== DEFAULT_LOCALE && isLocale(first)) {
+    return { locale: first, path: `/${rest.join("/")}` };
+  }
+  return { locale: DEFAULT_LOCALE, path: pathname };
+};
+
+// Best supported match for an Accept-Language header, e.g. "de-AT,de;q=0.9,en;q=0.8"
+export const negotiateLocale = (header: string | null): Locale | null => {
+  if (!header) return null;
+  const ranked = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((p) => p.trim().startsWith("q="));
+      return { lang: tag.trim().toLowerCase().split("-")[0], q: q ? Number(q.trim().slice(2)) : 1 };
+    })
+    .filter((l) => l.lang && Number.isFinite(l.q) && l.q > 0)
+    .sort((a, b) => b.q - a.q);
+  return ranked.map((l) => l.lang).find(isLocale) ?? null;
+};
+
+// Plans may carry per-locale copy: { "translations": { "de": { "description": "..." } } }
+export const localizePlan = (plan: PlanInfo, locale: Locale): PlanInfo => {
+  const copy = plan.translations?.[locale];
+  return copy ? { ...plan, name: copy.name ?? plan.name, description: copy.description ?? plan.description } : plan;
+};
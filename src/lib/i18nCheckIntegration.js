@@ -0,0 +1,52 @@
+import { readdirSync, readFileSync } from 'node:fs';
+
+// Astro integration comparing every message catalog in src/locales with en.json.
+// Missing keys and mismatched {placeholders} fail `astro build`; the dev server
+// only warns so a half-translated catalog doesn't block local work.
+const REFERENCE = 'en.json';
+
+const placeholders = (message) => [...message.matchAll(/\{(\w+)\}/g)].map((m) => m[1]).sort().join(',');
+
+const checkCatalogs = (dir) => {
+  const load = (file) => JSON.parse(readFileSync(new URL(file, dir), 'utf8'));
+  const reference = load(REFERENCE);
+  const problems = [];
+
+  for (const file of readdirSync(dir).filter((f) => f.endsWith('.json') && f !== REFERENCE)) {
+    const catalog = load(file);
+    for (const key of Object.keys(reference)) {
+      if (!(key in catalog)) problems.push(`${file}: missing "${key}"`);
+      else if (placeholders(catalog[key]) !== placeholders(reference[key])) {
+        problems.push(`${file}: "${key}" has placeholders {${placeholders(catalog[key])}}, expected {${placeholders(reference[key])}}`);
+      }
+    }
+    for (const key of Object.keys(catalog)) {
+      if (!(key in reference)) problems.push(`${file}: unknown key "${key}"`);
+    }
+  }
+  return problems;
+};
+
+export const i18nCheck = () => {
+  let localesDir;
+  return {
+    name: 'i18n-check',
+    hooks: {
+      'astro:config:setup': ({ config }) => {
+        localesDir = new URL('locales/', config.srcDir);
+      },
+      'astro:server:setup': ({ logger }) => {
+        const problems = checkCatalogs(localesDir);
+        problems.forEach((p) => logger.warn(p));
+      },
+      'astro:build:start': ({ logger }) => {
+        const problems = checkCatalogs(localesDir);
+        if (problems.length) {
+          problems.forEach((p) => logger.error(p));
+          throw new Error(`${problems.length} problem(s) in the message catalogs in src/locales`);
+        }
+        logger.info('message catalogs complete');
+      },
+    },
+  };
+};
@@ -0,0 +1,71 @@
+// Measures browser round-trip time to each location's probe URL.
+import type { LocationInfo } from "./types";
+
+export type Latency = {
+  ms: number;
+  source: "live" | "static"; // measured in the browser, or the catalog's ping value
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// The catalog ping is a display string such as "24ms" or "~30 ms"
+export const parseStaticPing = (ping?: string): number | null => {
+  if (!ping) return null;
+  const match = ping.match(/\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+// Median of `samples` timed requests after one warm-up request, which pays
+// for DNS and TLS. Resolves to null when the probe cannot be reached.
+export const probeLatency = async (
+  url: string,
+  { samples = 3, timeoutMs = 2000 }: { samples?: number; timeoutMs?: number } = {}
+): Promise<number | null> => {
+  const timings: number[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const probe = `${url}${url.includes("?") ? "&" : "?"}t=${Date.now()}-${i}`;
+    const start = performance.now();
+    try {
+      // no-cors: the response is opaque, only the timing matters
+      await fetch(probe, { mode: "no-cors", cache: "no-store", credentials: "omit", signal: controller.signal });
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+    if (i > 0) timings.push(performance.now() - start);
+  }
+  return Math.round(median(timings));
+};
+
+// Probes every location in parallel, falling back to the static ping
+export const measureLocations = async (locations: LocationInfo[]): Promise<Record<string, Latency>> => {
+  const entries = await Promise.all(
+    locations.map(async (loc): Promise<[string, Latency | null]> => {
+      const live = loc.probeUrl ? await probeLatency(loc.probeUrl) : null;
+      if (live !== null) return [loc.id, { ms: live, source: "live" }];
+      const fallback = parseStaticPing(loc.ping);
+      return [loc.id, fallback === null ? null : { ms: fallback, source: "static" }];
+    })
+  );
+  const result: Record<string, Latency> = {};
+  for (const [id, latency] of entries) if (latency) result[id] = latency;
+  return result;
+};
+
+// Fastest first; locations without any latency keep their catalog order at the end
+export const sortByLatency = (locations: LocationInfo[], latencies: Record<string, Latency>) =>
+  locations
+    .map((loc, index) => ({ loc, index }))
+    .sort((a, b) => {
+      const la = latencies[a.loc.id]?.ms ?? Infinity;
+      const lb = latencies[b.loc.id]?.ms ?? Infinity;
+      return la === lb ? a.index - b.index : la - lb;
+    })
+    .map(({ loc }) => loc);
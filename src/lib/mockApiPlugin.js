@@ -0,0 +1,164 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { loadEnv } from 'vite';
+
+// Vite plugin serving a stand-in for the upstream API under /mock-api on the
+// dev server: pulldata, promocode, buildlink and buildcart answered from the
+// fixtures in src/mocks, with simulated latency and failures. Files saved by
+// the /admin editor (src/mocks/catalog/) take precedence over the fixtures.
+// src/lib/config.ts points the site here when PUBLIC_MOCK_API=true.
+export const MOCK_API_PATH = '/mock-api';
+
+const MOCKS_DIR = join(process.cwd(), 'src', 'mocks');
+const PULLDATA_FILES = ['games.json', 'locations.json', 'plans.json', 'mods.json', 'currencies.json'];
+const LINK_PARAMS = ['gameid', 'players', 'location', 'tier', 'billingcycle', 'ram', 'pid', 'ram_cid', 'location_cid'];
+
+// MOCK_API_LATENCY is "300" or a range like "100-800" (ms)
+const parseLatency = (value) => {
+  const [min, max = min] = String(value).split('-').map((n) => Math.max(0, Number(n) || 0));
+  return { min, max: Math.max(min, max) };
+};
+
+const readOptions = (env) => ({
+  latency: parseLatency(env.MOCK_API_LATENCY ?? '150-600'),
+  errorRate: Math.min(1, Math.max(0, Number(env.MOCK_API_ERROR_RATE) || 0)),
+  // handlers ("buildlink") or handler:file pairs ("pulldata:games.json") that always fail
+  fail: (env.MOCK_API_FAIL || '').split(',').map((s) => s.trim()).filter(Boolean),
+});
+
+const readFixture = async (file) => {
+  for (const path of [join(MOCKS_DIR, 'catalog', file), join(MOCKS_DIR, file)]) {
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch (e) {
+      if (e.code !== 'ENOENT') throw e;
+    }
+  }
+  return null;
+};
+
+class MockError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const pulldata = async (url) => {
+  const file = url.searchParams.get('file') || '';
+  if (!PULLDATA_FILES.includes(file)) throw new MockError(404, `Unknown file ${file || '(empty)'}`);
+  const data = await readFixture(file);
+  if (data === null) throw new MockError(404, `No fixture for ${file}`);
+
+  const game = (url.searchParams.get('game') || '').toLowerCase();
+  // the fixture keys mods by game id so one file covers every game; that layout
+  // is mock-only, the storefront relies on ?game= answering with an array
+  if (file === 'mods.json') return game ? data[game] ?? [] : data;
+  if (file === 'games.json' && game) {
+    const found = data.find((g) => g.id === game || String(g.name).toLowerCase() === game);
+    if (!found) throw new MockError(404, `Unknown game ${game}`);
+    return found;
+  }
+  return data;
+};
+
+const promocode = async (url) => {
+  const code = (url.searchParams.get('code') || '').trim().toUpperCase();
+  const promo = ((await readFixture('promocodes.json')) || []).find((p) => p.code === code);
+  if (!promo) throw new MockError(404, `Promo code ${code || '(empty)'} does not exist`);
+  return promo;
+};
+
+const checkLinkParams = (params, where) => {
+  const missing = LINK_PARAMS.filter((key) => !params[key]);
+  if (missing.length) throw new MockError(400, `${where} is missing ${missing.join(', ')}`);
+};
+
+// Cart links point at /mock-api/cart, which shows what would have been ordered
+const buildlink = async (url, origin) => {
+  const params = Object.fromEntries(url.searchParams);
+  checkLinkParams(params, 'buildlink');
+  delete params.handler;
+  return { 'cart-link': `${origin}${MOCK_API_PATH}/cart?${new URLSearchParams(params)}` };
+};
+
+const buildcart = async (url, origin) => {
+  let items;
+  try {
+    items = JSON.parse(url.searchParams.get('items') || '');
+  } catch {
+    throw new MockError(400, 'buildcart items is not JSON');
+  }
+  if (!Array.isArray(items) || items.length === 0) throw new MockError(400, 'buildcart needs at least one item');
+  items.forEach((item, i) => checkLinkParams(item, `buildcart item ${i}`));
+  const params = new URLSearchParams({ items: JSON.stringify(items) });
+  const currency = url.searchParams.get('currency');
+  if (currency) params.set('currency', currency);
+  return { 'cart-link': `${origin}${MOCK_API_PATH}/cart?${params}` };
+};
+
+const HANDLERS = { pulldata, promocode, buildlink, buildcart };
+
+const escapeHtml = (s) => s.replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+
+const cartPage = (url) => {
+  const rows = [...url.searchParams]
+    .map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('');
+  return `<!doctype html><meta charset="utf-8"><title>Mock checkout</title>
+<body style="font-family:sans-serif;padding:2rem"><h1>Mock checkout</h1>
+<p>The mock API issued this cart link; nothing was ordered.</p>
+<table>${rows}</table><p><a href="/">Back to the store</a></p></body>`;
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const mockApiPlugin = () => {
+  let options = readOptions({});
+
+  return {
+    name: 'mock-api-plugin',
+    configResolved(config) {
+      options = readOptions(loadEnv(config.mode, config.envDir || config.root, 'MOCK_API_'));
+    },
+    configureServer(server) {
+      // server-side fetches need an absolute URL (see src/lib/config.ts)
+      server.httpServer?.once('listening', () => {
+        const address = server.httpServer.address();
+        if (address && typeof address === 'object') process.env.MOCK_API_ORIGIN = `http://localhost:${address.port}`;
+      });
+
+      server.middlewares.use(async (req, res, next) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        if (url.pathname !== MOCK_API_PATH && !url.pathname.startsWith(`${MOCK_API_PATH}/`)) return next();
+
+        if (url.pathname === `${MOCK_API_PATH}/cart`) {
+          res.setHeader('Content-Type', 'text/html; charset=utf-8');
+          res.end(cartPage(url));
+          return;
+        }
+
+        const name = url.searchParams.get('handler') || '';
+        const handler = HANDLERS[name];
+        const { min, max } = options.latency;
+        await sleep(min + Math.random() * (max - min));
+
+        let status = 200;
+        let body;
+        try {
+          if (!handler) throw new MockError(400, `Unknown handler ${name || '(empty)'}`);
+          const forced = options.fail.includes(name) || options.fail.includes(`${name}:${url.searchParams.get('file')}`);
+          if (forced || Math.random() < options.errorRate) throw new MockError(503, `Simulated ${name} failure`);
+          body = { ok: true, data: await handler(url, `http://${req.headers.host}`) };
+        } catch (e) {
+          status = e instanceof MockError ? e.status : 500;
+          body = { ok: false, error: e instanceof Error ? e.message : String(e) };
+        }
+
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body));
+      });
+    }
+  };
+};
@@ -0,0 +1,180 @@
+import type { PromoCode } from "./promo";
+import { SERVER_TIERS, sizeServer } from "./sizing";
+import type { ResourceAllocation } from "./sizing";
+import type { GameInfo, TierId } from "./types";
+import { defaultModCount } from "./validation";
+
+export type BillingPeriodId = "monthly" | "quarterly" | "semiannually" | "annually";
+
+export type BillingPeriod = {
+  id: BillingPeriodId;
+  label: string;
+  months: number;
+  discount: number; // percent off the monthly subtotal
+};
+
+export const BILLING_PERIODS: BillingPeriod[] = [
+  { id: "monthly", label: "Monthly", months: 1, discount: 0 },
+  { id: "quarterly", label: "Quarterly", months: 3, discount: 10 },
+  { id: "semiannually", label: "Semi-annually", months: 6, discount: 15 },
+  { id: "annually", label: "Annually", months: 12, discount: 20 },
+];
+
+// accepts either the id ("quarterly") or the label ("Quarterly")
+export const findBillingPeriod = (value?: string): BillingPeriod | undefined => {
+  if (!value) return undefined;
+  const v = value.toLowerCase();
+  return BILLING_PERIODS.find((p) => p.id === v || p.label.toLowerCase() === v);
+};
+
+export const getBillingPeriod = (id: BillingPeriodId): BillingPeriod =>
+  BILLING_PERIODS.find((p) => p.id === id) || BILLING_PERIODS[0];
+
+export const MAX_BILLING_DISCOUNT = Math.max(...BILLING_PERIODS.map((p) => p.discount));
+
+// Monthly price of one GB of RAM on each tier; CPU and disk scale with RAM
+export const TIER_RATES: Record<TierId, number> = {
+  budget: 1,
+  standard: 2,
+  premium: 3,
+};
+
+// Monthly price per installed mod
+export const MOD_PRICE = 0.5;
+
+// Line items carry numbers only; clients word and format them in the
+// visitor's language and currency
+export type QuoteLineItem = {
+  id: "ram" | "mods" | "billing" | "promo";
+  amount: number; // USD per month; negative for discounts
+  quantity?: number; // GB of RAM, or mods
+  unitPrice?: number; // USD per GB or mod per month
+  percent?: number; // billing discount
+  code?: string; // promo code
+  firstTermOnly?: boolean; // promo off the first invoice only
+};
+
+export type Quote = {
+  tier: TierId;
+  billingPeriod: BillingPeriodId;
+  months: number;
+  lineItems: QuoteLineItem[];
+  discounts: QuoteLineItem[];
+  subtotal: number; // per month, before discounts
+  discount: number; // recurring, per month, positive
+  totalMonthly: number;
+  totalTerm: number; // billed once per billing period
+  promoCode?: string;
+  firstTermDiscount: number; // one-off discount on the first invoice
+  firstTermTotal: number; // what the first invoice comes to
+};
+
+export const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+export const buildQuote = ({
+  resources,
+  tier,
+  billingPeriod,
+  mods,
+  promo,
+}: {
+  resources: Pick<ResourceAllocation, "ramGB">;
+  tier: TierId;
+  billingPeriod: BillingPeriodId;
+  mods: number;
+  promo?: PromoCode | null;
+}): Quote => {
+  const period = getBillingPeriod(billingPeriod);
+  const rate = TIER_RATES[tier];
+
+  const lineItems: QuoteLineItem[] = [
+    {
+      id: "ram",
+      quantity: resources.ramGB,
+      unitPrice: rate,
+      amount: roundCents(resources.ramGB * rate),
+    },
+  ];
+  if (mods > 0) {
+    lineItems.push({
+      id: "mods",
+      quantity: mods,
+      unitPrice: MOD_PRICE,
+      amount: roundCents(mods * MOD_PRICE),
+    });
+  }
+
+  const subtotal = roundCents(lineItems.reduce((sum, li) => sum + li.amount, 0));
+
+  const discounts: QuoteLineItem[] = [];
+  if (period.discount > 0) {
+    discounts.push({
+      id: "billing",
+      percent: period.discount,
+      amount: -roundCents((subtotal * period.discount) / 100),
+    });
+  }
+
+  // recurring promos come off every month, after the billing discount
+  if (promo && !promo.firstTermOnly) {
+    const remaining = subtotal + discounts.reduce((sum, d) => sum + d.amount, 0);
+    const off = promo.type === "percent" ? (remaining * promo.value) / 100 : promo.value;
+    discounts.push({
+      id: "promo",
+      code: promo.code,
+      amount: -roundCents(Math.min(off, remaining)),
+    });
+  }
+
+  const discount = roundCents(-discounts.reduce((sum, d) => sum + d.amount, 0));
+  const totalMonthly = roundCents(subtotal - discount);
+  const totalTerm = roundCents(totalMonthly * period.months);
+
+  // first-term promos come off the first invoice only
+  let firstTermDiscount = 0;
+  if (promo && promo.firstTermOnly) {
+    const off = promo.type === "percent" ? (totalTerm * promo.value) / 100 : promo.value;
+    firstTermDiscount = roundCents(Math.min(off, totalTerm));
+    discounts.push({
+      id: "promo",
+      code: promo.code,
+      firstTermOnly: true,
+      amount: -firstTermDiscount,
+    });
+  }
+
+  return {
+    tier,
+    billingPeriod: period.id,
+    months: period.months,
+    lineItems,
+    discounts,
+    subtotal,
+    discount,
+    totalMonthly,
+    totalTerm,
+    promoCode: promo?.code,
+    firstTermDiscount,
+    firstTermTotal: roundCents(totalTerm - firstTermDiscount),
+  };
+};
+
+// Lowest monthly price a game can be bought at. The catalog's `startingPrice`
+// wins; otherwise fewest players and required mods, priced on every tier with
+// the longest billing discount, and the cheapest result is taken.
+export const startingMonthlyPrice = (
+  game: Pick<GameInfo, "minPlayers" | "minMods" | "serverConfig" | "startingPrice">
+) => {
+  if (game.startingPrice !== undefined) return game.startingPrice;
+  const period = BILLING_PERIODS.reduce((best, p) => (p.discount > best.discount ? p : best));
+  const prices = SERVER_TIERS.map((t) => {
+    const resources = sizeServer({
+      serverConfig: game.serverConfig,
+      players: game.minPlayers,
+      mods: defaultModCount(game),
+      tier: t.id,
+    });
+    return buildQuote({ resources, tier: t.id, billingPeriod: period.id, mods: defaultModCount(game) }).totalMonthly;
+  });
+  return Math.min(...prices);
+};
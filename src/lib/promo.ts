@@ -0,0 +1,37 @@
+import type { TierId } from "./types";
+
+export type PromoCode = {
+  code: string;
+  type: "percent" | "fixed";
+  value: number; // percent off, or amount off in USD
+  firstTermOnly?: boolean; // only discounts the first invoice
+  games?: string[]; // game ids; absent or empty => every game
+  tiers?: TierId[]; // absent or empty => every tier
+  description?: string;
+};
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+export type PromoIneligibility = {
+  code: "game" | "tier"; // `promo.<code>` in the message catalogs
+  params: { code: string; tiers?: string }; // tiers: comma-separated tier ids
+  message: string; // English, for API responses and logs
+};
+
+// Returns why a code cannot be used for this selection, or null when it can
+export const promoIneligibility = (
+  promo: PromoCode,
+  { gameId, tier }: { gameId: string; tier: TierId }
+): PromoIneligibility | null => {
+  if (promo.games?.length && !promo.games.includes(gameId)) {
+    return { code: "game", params: { code: promo.code }, message: `${promo.code} is not valid for this game` };
+  }
+  if (promo.tiers?.length && !promo.tiers.includes(tier)) {
+    return {
+      code: "tier",
+      params: { code: promo.code, tiers: promo.tiers.join(",") },
+      message: `${promo.code} is only valid for ${promo.tiers.join(" / ")} servers`,
+    };
+  }
+  return null;
+};
@@ -0,0 +1,79 @@
+// Suggests a server tier for a game, group size and mod count. Busy and
+// modded servers spike above their steady-state memory estimate, so they need
+// headroom; the recommendation is the cheapest tier that provides it.
+import { DEFAULT_SIZING, MOD_RAM_GB, SERVER_TIERS, sizeServer } from "./sizing";
+import type { ResourceAllocation } from "./sizing";
+import type { GameInfo, TierId } from "./types";
+
+// a server counts as busy from this share of the game's player limit
+export const BUSY_SHARE = 0.5;
+// mod count from which a server counts as heavily modded
+export const HEAVY_MODS = 10;
+
+export type RecommendationCode = "ram" | "ram_mods" | "cpu" | "minimum";
+
+export type TierRecommendation = {
+  tier: TierId;
+  ramGB: number; // what the setup needs
+  vcpu: number;
+  code: RecommendationCode; // `recommend.<code>` in the message catalogs
+  params: Record<string, string | number>;
+  reason: string; // English
+};
+
+// RAM and CPU headroom over the raw demand the setup needs
+const neededHeadroom = (players: number, mods: number, maxPlayers: number) => {
+  const busy = maxPlayers > 0 && players / maxPlayers >= BUSY_SHARE;
+  if (mods >= HEAVY_MODS || (busy && mods > 0)) return { ram: 1.5, cpu: 2 };
+  if (busy || mods > 0) return { ram: 1.25, cpu: 1.5 };
+  return { ram: 1, cpu: 1 };
+};
+
+export const recommendTier = (
+  game: Pick<GameInfo, "serverConfig" | "maxPlayers">,
+  players: number,
+  mods: number
+): TierRecommendation => {
+  const cfg = game.serverConfig || DEFAULT_SIZING;
+  const headroom = neededHeadroom(players, mods, game.maxPlayers);
+  const rawRam = cfg.ramPerPlayer * players + MOD_RAM_GB * mods;
+  const ramGB = Math.max(cfg.minRam, Math.ceil(rawRam * headroom.ram));
+  const vcpu = Math.max(cfg.minCPU, Math.ceil(cfg.cpuPerPlayer * players * headroom.cpu));
+  const budget = sizeServer({ serverConfig: cfg, players, mods, tier: "budget" });
+
+  // tiers are ordered cheapest first
+  const fits = (r: ResourceAllocation) => r.ramGB >= ramGB && r.vcpu >= vcpu;
+  const tier =
+    SERVER_TIERS.find((t) => fits(sizeServer({ serverConfig: cfg, players, mods, tier: t.id })))?.id ??
+    SERVER_TIERS[SERVER_TIERS.length - 1].id;
+
+  const ramShort = ramGB > budget.ramGB;
+  if (!ramShort && vcpu > budget.vcpu) {
+    return { tier, ramGB, vcpu, code: "cpu", params: { players, vcpu }, reason: `${players} players need ≥ ${vcpu} vCPU` };
+  }
+  if (!ramShort && budget.ramAtMinimum) {
+    return {
+      tier,
+      ramGB,
+      vcpu,
+      code: "minimum",
+      params: { players, ram: ramGB },
+      reason: `The game's ${ramGB} GB minimum covers ${players} players`,
+    };
+  }
+  if (mods > 0) {
+    return {
+      tier,
+      ramGB,
+      vcpu,
+      code: "ram_mods",
+      params: { players, mods, ram: ramGB },
+      reason: `${players} players + ${mods} mods needs ≥ ${ramGB} GB RAM`,
+    };
+  }
+  return { tier, ramGB, vcpu, code: "ram", params: { players, ram: ramGB }, reason: `${players} players need ≥ ${ramGB} GB RAM` };
+};
+
+// True when an allocation falls short of what the recommendation needs
+export const isUndersized = (resources: ResourceAllocation, recommendation: TierRecommendation) =>
+  resources.ramGB < recommendation.ramGB || resources.vcpu < recommendation.vcpu;
@@ -0,0 +1,38 @@
+// Canonical storefront URLs:
+//   /                          all games
+//   /game/<gameId>             plans for one game
+//   /game/<gameId>/<planSlug>  configurator; the slug is a plan id from plans.json or a tier id
+import { isTierId } from "./sizing";
+import type { GameInfo, PlanInfo, TierId } from "./types";
+
+export const gamePath = (game: Pick<GameInfo, "id">) => `/game/${encodeURIComponent(game.id)}`;
+
+export const configurePath = (game: Pick<GameInfo, "id">, planSlug: string, params?: URLSearchParams) => {
+  const query = params && params.toString() ? `?${params}` : "";
+  return `${gamePath(game)}/${encodeURIComponent(planSlug)}${query}`;
+};
+
+// Matches a game by id, or by name for the older name-based URLs.
+// `canonical` is false when the slug should be redirected to the id form.
+export const findGameBySlug = (
+  games: GameInfo[],
+  slug: string
+): { game: GameInfo; canonical: boolean } | null => {
+  const byId = games.find((g) => g.id === slug);
+  if (byId) return { game: byId, canonical: true };
+  const wanted = slug.toLowerCase();
+  const byName = games.find((g) => g.name.toLowerCase() === wanted || g.id.toLowerCase() === wanted);
+  return byName ? { game: byName, canonical: false } : null;
+};
+
+export type ResolvedPlan = {
+  tier: TierId;
+  plan?: PlanInfo; // absent when the slug is a bare tier id
+};
+
+export const resolvePlanSlug = (slug: string, plans: PlanInfo[]): ResolvedPlan | null => {
+  const plan = plans.find((p) => p.id === slug);
+  if (plan) return { tier: plan.tier, plan };
+  const tier = slug.toLowerCase();
+  return isTierId(tier) ? { tier } : null;
+};
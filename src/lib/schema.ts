@@ -0,0 +1,328 @@
+// Runtime validation for API payloads. Each parser returns a value of the
+// declared type or throws a SchemaError naming the offending field.
+import { EVENT_NAMES, MAX_EVENT_BATCH } from "./analytics";
+import type { TrackedEvent } from "./analytics";
+import { SchemaError } from "./apiErrors";
+import type { CartCheckoutRequest, CartCheckoutResponse, CheckoutRequest, CheckoutResponse } from "./checkout";
+import { findBillingPeriod } from "./pricing";
+import type { Quote, QuoteLineItem } from "./pricing";
+import type { PromoCode } from "./promo";
+import { isTierId } from "./sizing";
+import type {
+  BuildLinkResponse,
+  CurrencyInfo,
+  GameInfo,
+  LocationInfo,
+  ModInfo,
+  PlanInfo,
+  ServerConfig,
+} from "./types";
+
+type Obj = Record<string, unknown>;
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const fail = (field: string, expected: string, value: unknown): never => {
+  throw new SchemaError(field, `expected ${expected}, got ${describe(value)}`);
+};
+
+const expectObject = (value: unknown, field: string): Obj => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return fail(field, "object", value);
+  }
+  return value as Obj;
+};
+
+const str = (obj: Obj, key: string, field: string): string => {
+  const v = obj[key];
+  if (typeof v !== "string" || !v) return fail(`${field}.${key}`, "non-empty string", v);
+  return v;
+};
+
+const num = (obj: Obj, key: string, field: string): number => {
+  const v = obj[key];
+  if (typeof v !== "number" || !Number.isFinite(v)) return fail(`${field}.${key}`, "number", v);
+  return v;
+};
+
+const optStr = (obj: Obj, key: string, field: string): string | undefined =>
+  obj[key] === undefined || obj[key] === null ? undefined : str(obj, key, field);
+
+const optNum = (obj: Obj, key: string, field: string): number | undefined =>
+  obj[key] === undefined || obj[key] === null ? undefined : num(obj, key, field);
+
+export const parseArray = <T,>(
+  value: unknown,
+  field: string,
+  parseItem: (item: unknown, field: string) => T
+): T[] => {
+  if (!Array.isArray(value)) return fail(field, "array", value);
+  return value.map((item, i) => parseItem(item, `${field}[${i}]`));
+};
+
+const optStrArray = (obj: Obj, key: string, field: string): string[] | undefined =>
+  obj[key] === undefined || obj[key] === null
+    ? undefined
+    : parseArray(obj[key], `${field}.${key}`, (v, f) => {
+        if (typeof v !== "string") return fail(f, "string", v);
+        return v;
+      });
+
+// Any JSON object, kept as is (the catalog editor works on raw entries)
+export const parseObject = (value: unknown, field = "entry"): Record<string, unknown> => expectObject(value, field);
+
+export const parseServerConfig = (value: unknown, field = "serverConfig"): ServerConfig => {
+  const o = expectObject(value, field);
+  return {
+    ramPerPlayer: num(o, "ramPerPlayer", field),
+    cpuPerPlayer: num(o, "cpuPerPlayer", field),
+    diskPerPlayer: num(o, "diskPerPlayer", field),
+    minRam: num(o, "minRam", field),
+    minCPU: num(o, "minCPU", field),
+    standard_PID: num(o, "standard_PID", field),
+    premium_PID: num(o, "premium_PID", field),
+    standard_RAM_CID: num(o, "standard_RAM_CID", field),
+    premium_RAM_CID: num(o, "premium_RAM_CID", field),
+    standard_Location_CID: num(o, "standard_Location_CID", field),
+    premium_Location_CID: num(o, "premium_Location_CID", field),
+  };
+};
+
+export const parseGameInfo = (value: unknown, field = "game"): GameInfo => {
+  const o = expectObject(value, field);
+  const game: GameInfo = {
+    id: str(o, "id", field),
+    name: str(o, "name", field),
+    minPlayers: num(o, "minPlayers", field),
+    maxPlayers: num(o, "maxPlayers", field),
+    minMods: num(o, "minMods", field),
+    maxMods: num(o, "maxMods", field),
+    image: optStr(o, "image", field),
+    startingPrice: optNum(o, "startingPrice", field),
+    tags: optStrArray(o, "tags", field),
+    popularity: optNum(o, "popularity", field),
+    serverConfig:
+      o.serverConfig === undefined || o.serverConfig === null
+        ? undefined
+        : parseServerConfig(o.serverConfig, `${field}.serverConfig`),
+  };
+  if (game.minPlayers > game.maxPlayers) {
+    fail(`${field}.minPlayers`, `at most maxPlayers (${game.maxPlayers})`, game.minPlayers);
+  }
+  if (game.minMods > game.maxMods) {
+    fail(`${field}.minMods`, `at most maxMods (${game.maxMods})`, game.minMods);
+  }
+  return game;
+};
+
+export const parseCurrencyInfo = (value: unknown, field = "currency"): CurrencyInfo => {
+  const o = expectObject(value, field);
+  const code = str(o, "code", field).toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) fail(`${field}.code`, "ISO 4217 currency code", o.code);
+  const rate = num(o, "rate", field);
+  if (rate <= 0) fail(`${field}.rate`, "positive exchange rate", rate);
+  return {
+    code,
+    rate,
+    name: optStr(o, "name", field),
+    locale: optStr(o, "locale", field),
+  };
+};
+
+export const parseLocationInfo = (value: unknown, field = "location"): LocationInfo => {
+  const o = expectObject(value, field);
+  // ping is declared as a string, but older entries carry a bare number of ms
+  const ping = typeof o.ping === "number" ? String(o.ping) : optStr(o, "ping", field);
+  return {
+    id: str(o, "id", field),
+    name: str(o, "name", field),
+    ping,
+    probeUrl: optStr(o, "probeUrl", field),
+  };
+};
+
+export const parseModInfo = (value: unknown, field = "mod"): ModInfo => {
+  const o = expectObject(value, field);
+  return {
+    id: str(o, "id", field),
+    name: str(o, "name", field),
+    version: optStr(o, "version", field),
+    description: optStr(o, "description", field),
+    author: optStr(o, "author", field),
+  };
+};
+
+// { "<locale>": { "name"?: string, "description"?: string } }
+const parseTranslations = (
+  value: unknown,
+  field: string
+): Record<string, { name?: string; description?: string }> | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const o = expectObject(value, field);
+  return Object.fromEntries(
+    Object.keys(o).map((locale) => {
+      const copy = expectObject(o[locale], `${field}.${locale}`);
+      return [
+        locale,
+        { name: optStr(copy, "name", `${field}.${locale}`), description: optStr(copy, "description", `${field}.${locale}`) },
+      ];
+    })
+  );
+};
+
+export const parsePlanInfo = (value: unknown, field = "plan"): PlanInfo => {
+  const o = expectObject(value, field);
+  const tier = str(o, "tier", field);
+  if (!isTierId(tier)) return fail(`${field}.tier`, "tier id", tier);
+  return {
+    id: str(o, "id", field),
+    name: str(o, "name", field),
+    tier,
+    players: num(o, "players", field),
+    description: optStr(o, "description", field),
+    icon: optStr(o, "icon", field),
+    backups: optNum(o, "backups", field) ?? 0,
+    databases: optNum(o, "databases", field) ?? 0,
+    games: optStrArray(o, "games", field),
+    translations: parseTranslations(o.translations, `${field}.translations`),
+  };
+};
+
+export const parsePromoCode = (value: unknown, field = "promo"): PromoCode => {
+  const o = expectObject(value, field);
+  const type = o.type;
+  if (type !== "percent" && type !== "fixed") return fail(`${field}.type`, `"percent" or "fixed"`, type);
+  const games = optStrArray(o, "games", field);
+  const tiers = o.tiers === undefined ? undefined : parseArray(o.tiers, `${field}.tiers`, (t, f) => {
+    if (typeof t !== "string" || !isTierId(t)) return fail(f, "tier id", t);
+    return t;
+  });
+  // a negative value or a percentage over 100 would inflate or break the quote
+  const amount = num(o, "value", field);
+  if (amount < 0) return fail(`${field}.value`, "non-negative number", amount);
+  if (type === "percent" && amount > 100) return fail(`${field}.value`, "percentage up to 100", amount);
+  return {
+    code: str(o, "code", field),
+    type,
+    value: amount,
+    firstTermOnly: o.firstTermOnly === true,
+    games,
+    tiers,
+    description: optStr(o, "description", field),
+  };
+};
+
+export const parseBuildLinkResponse = (value: unknown, field = "buildlink"): BuildLinkResponse => {
+  const o = expectObject(value, field);
+  const cartLink = str(o, "cart-link", field);
+  if (!/^https?:\/\//.test(cartLink)) return fail(`${field}.cart-link`, "absolute URL", cartLink);
+  return { cartLink };
+};
+
+export const parseCheckoutRequest = (value: unknown, field = "checkout"): CheckoutRequest => {
+  const o = expectObject(value, field);
+  const tier = str(o, "tier", field);
+  if (!isTierId(tier)) return fail(`${field}.tier`, "tier id", tier);
+  const period = findBillingPeriod(str(o, "billingPeriod", field));
+  if (!period) return fail(`${field}.billingPeriod`, "billing period id", o.billingPeriod);
+  return {
+    gameId: str(o, "gameId", field),
+    players: num(o, "players", field),
+    locationId: str(o, "locationId", field),
+    tier,
+    billingPeriod: period.id,
+    mods: parseArray(o.mods ?? [], `${field}.mods`, (m, f) => {
+      if (typeof m !== "string" || !m) return fail(f, "mod id", m);
+      return m;
+    }),
+    promoCode: optStr(o, "promoCode", field),
+    currency: optStr(o, "currency", field)?.toUpperCase(),
+  };
+};
+
+export const parseCartCheckoutRequest = (value: unknown, field = "cart"): CartCheckoutRequest => {
+  const o = expectObject(value, field);
+  const items = parseArray(o.items, `${field}.items`, (item, f) => parseCheckoutRequest(item, f));
+  if (items.length === 0) return fail(`${field}.items`, "at least one item", items);
+  return { items, currency: optStr(o, "currency", field)?.toUpperCase() };
+};
+
+const QUOTE_LINE_IDS = ["ram", "mods", "billing", "promo"] as const;
+
+const parseQuoteLineItem = (value: unknown, field: string): QuoteLineItem => {
+  const o = expectObject(value, field);
+  const id = str(o, "id", field);
+  if (!(QUOTE_LINE_IDS as readonly string[]).includes(id)) return fail(`${field}.id`, "quote line id", id);
+  return {
+    id: id as QuoteLineItem["id"],
+    amount: num(o, "amount", field),
+    quantity: optNum(o, "quantity", field),
+    unitPrice: optNum(o, "unitPrice", field),
+    percent: optNum(o, "percent", field),
+    code: optStr(o, "code", field),
+    firstTermOnly: o.firstTermOnly === true || undefined,
+  };
+};
+
+const parseQuote = (value: unknown, field: string): Quote => {
+  const o = expectObject(value, field);
+  const tier = str(o, "tier", field);
+  if (!isTierId(tier)) return fail(`${field}.tier`, "tier id", tier);
+  const period = findBillingPeriod(str(o, "billingPeriod", field));
+  if (!period) return fail(`${field}.billingPeriod`, "billing period id", o.billingPeriod);
+  return {
+    tier,
+    billingPeriod: period.id,
+    months: num(o, "months", field),
+    lineItems: parseArray(o.lineItems, `${field}.lineItems`, parseQuoteLineItem),
+    discounts: parseArray(o.discounts, `${field}.discounts`, parseQuoteLineItem),
+    subtotal: num(o, "subtotal", field),
+    discount: num(o, "discount", field),
+    totalMonthly: num(o, "totalMonthly", field),
+    totalTerm: num(o, "totalTerm", field),
+    promoCode: optStr(o, "promoCode", field),
+    firstTermDiscount: num(o, "firstTermDiscount", field),
+    firstTermTotal: num(o, "firstTermTotal", field),
+  };
+};
+
+export const parseCheckoutResponse = (value: unknown, field = "checkout"): CheckoutResponse => {
+  const o = expectObject(value, field);
+  return {
+    cartLink: str(o, "cartLink", field),
+    quote: parseQuote(o.quote, `${field}.quote`),
+  };
+};
+
+export const parseCartCheckoutResponse = (value: unknown, field = "cart"): CartCheckoutResponse => {
+  const o = expectObject(value, field);
+  return {
+    cartLinks: parseArray(o.cartLinks, `${field}.cartLinks`, (v, f) =>
+      typeof v === "string" && v ? v : fail(f, "non-empty string", v)
+    ),
+    quotes: parseArray(o.quotes, `${field}.quotes`, parseQuote),
+  };
+};
+
+// Events are checked for a known name and flat, primitive properties; the
+// collector stores them as sent
+const parseTrackedEvent = (value: unknown, field: string): TrackedEvent => {
+  const o = expectObject(value, field);
+  const name = str(o, "name", field);
+  if (!(EVENT_NAMES as readonly string[]).includes(name)) return fail(`${field}.name`, "event name", name);
+  num(o, "at", field);
+  str(o, "path", field);
+  for (const [key, v] of Object.entries(o)) {
+    const flat = (x: unknown) => x === null || ["string", "number", "boolean"].includes(typeof x);
+    if (!flat(v) && !(Array.isArray(v) && v.every(flat))) return fail(`${field}.${key}`, "primitive or array of primitives", v);
+  }
+  return o as TrackedEvent;
+};
+
+export const parseEventBatch = (value: unknown, field = "events"): TrackedEvent[] => {
+  const o = expectObject(value, field);
+  const events = parseArray(o.events, field, parseTrackedEvent);
+  if (events.length > MAX_EVENT_BATCH) return fail(field, `at most ${MAX_EVENT_BATCH} events`, events);
+  return events;
+};
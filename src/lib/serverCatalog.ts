@@ -0,0 +1,36 @@
+// Catalog access for server-rendered pages and API routes, read through the
+// catalog cache: the CATALOG_CACHE KV namespace when it is bound, the Workers
+// Cache API otherwise.
+import { fetchCurrencies, fetchGames, fetchLocations, fetchMods, fetchPlans } from "./api";
+import { cached } from "./catalogCache";
+import type { CacheApi, CacheOptions } from "./catalogCache";
+
+const seconds = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+export const cacheOptions = (locals: App.Locals): CacheOptions => {
+  const runtime = locals.runtime;
+  const env = runtime?.env;
+  return {
+    kv: env?.CATALOG_CACHE,
+    // workers-types declares its own Response, distinct from the DOM one used here
+    cache: runtime?.caches?.default as CacheApi | undefined,
+    ttlSeconds: seconds(env?.CATALOG_TTL_SECONDS, 300),
+    swrSeconds: seconds(env?.CATALOG_SWR_SECONDS, 3600),
+    waitUntil: runtime?.ctx ? (p) => runtime.ctx.waitUntil(p) : undefined,
+    inflight: new Map(), // callers make one serverCatalog per request
+  };
+};
+
+export const serverCatalog = (locals: App.Locals) => {
+  const opts = cacheOptions(locals);
+  return {
+    games: () => cached("games.json", fetchGames, opts),
+    locations: () => cached("locations.json", fetchLocations, opts),
+    plans: (gameId: string) => cached(`plans.json:${gameId}`, () => fetchPlans(gameId), opts),
+    mods: (gameId: string) => cached(`mods.json:${gameId}`, () => fetchMods(gameId), opts),
+    currencies: () => cached("currencies.json", fetchCurrencies, opts),
+  };
+};
@@ -0,0 +1,134 @@
+// Encodes a configurator selection into the query string so it can be shared,
+// bookmarked and restored. The game itself is carried by the page URL.
+import { findBillingPeriod } from "./pricing";
+import type { BillingPeriodId } from "./pricing";
+import { isTierId } from "./sizing";
+import type { GameInfo, LocationInfo, TierId } from "./types";
+import { clampMods, clampPlayers, modsSupported } from "./validation";
+
+export type SharedConfig = {
+  players: number;
+  locationId: string;
+  tier: TierId;
+  billingPeriod: BillingPeriodId;
+  mods: string[];
+};
+
+// query parameter names
+const KEYS = {
+  players: "players",
+  locationId: "location",
+  tier: "tier",
+  billingPeriod: "billing",
+  mods: "mods",
+} as const;
+
+export const writeConfigParams = (params: URLSearchParams, config: SharedConfig) => {
+  params.set(KEYS.players, String(config.players));
+  params.set(KEYS.locationId, config.locationId);
+  params.set(KEYS.tier, config.tier);
+  params.set(KEYS.billingPeriod, config.billingPeriod);
+  if (config.mods.length) params.set(KEYS.mods, config.mods.join(","));
+  else params.delete(KEYS.mods);
+};
+
+export const hasConfigParams = (params: URLSearchParams) =>
+  Object.values(KEYS).some((k) => params.has(k));
+
+export type LinkNoticeCode =
+  | "players_invalid"
+  | "players_adjusted"
+  | "location_unavailable"
+  | "tier_unknown"
+  | "billing_unknown"
+  | "mods_unsupported"
+  | "mods_trimmed";
+
+export type LinkNotice = {
+  code: LinkNoticeCode; // `link.<code>` in the message catalogs
+  params: Record<string, string | number>;
+  message: string; // English
+};
+
+const notice = (code: LinkNoticeCode, message: string, params: Record<string, string | number> = {}): LinkNotice => ({
+  code,
+  params,
+  message,
+});
+
+// Reads whatever the link carries and fits it to the game's limits. Every value
+// that had to be changed or dropped is reported in `notices`.
+export const readConfigParams = (
+  params: URLSearchParams,
+  game: GameInfo,
+  locations: LocationInfo[]
+): { config: Partial<SharedConfig>; notices: LinkNotice[] } => {
+  const config: Partial<SharedConfig> = {};
+  const notices: LinkNotice[] = [];
+
+  // an empty value ("players=") counts as missing, so the game's default applies
+  const rawPlayers = params.get(KEYS.players)?.trim() || null;
+  if (rawPlayers !== null) {
+    const n = Math.round(Number(rawPlayers));
+    if (!Number.isFinite(n)) {
+      notices.push(notice("players_invalid", `Ignored invalid player count "${rawPlayers}"`, { value: rawPlayers }));
+    } else {
+      const clamped = clampPlayers(game, n);
+      if (clamped !== n) {
+        notices.push(
+          notice(
+            "players_adjusted",
+            `Players adjusted from ${n} to ${clamped} (${game.name} allows ${game.minPlayers}–${game.maxPlayers})`,
+            { from: n, to: clamped, game: game.name, min: game.minPlayers, max: game.maxPlayers }
+          )
+        );
+      }
+      config.players = clamped;
+    }
+  }
+
+  const rawLocation = params.get(KEYS.locationId);
+  if (rawLocation !== null) {
+    if (locations.some((l) => l.id === rawLocation)) config.locationId = rawLocation;
+    else {
+      notices.push(
+        notice("location_unavailable", `Location "${rawLocation}" is not available, the default was selected`, {
+          location: rawLocation,
+        })
+      );
+    }
+  }
+
+  const rawTier = params.get(KEYS.tier);
+  if (rawTier !== null) {
+    const t = rawTier.toLowerCase();
+    if (isTierId(t)) config.tier = t;
+    else notices.push(notice("tier_unknown", `Unknown server tier "${rawTier}"`, { value: rawTier }));
+  }
+
+  const rawBilling = params.get(KEYS.billingPeriod);
+  if (rawBilling !== null) {
+    const period = findBillingPeriod(rawBilling);
+    if (period) config.billingPeriod = period.id;
+    else notices.push(notice("billing_unknown", `Unknown billing period "${rawBilling}"`, { value: rawBilling }));
+  }
+
+  const rawMods = params.get(KEYS.mods);
+  if (rawMods !== null) {
+    const mods = Array.from(new Set(rawMods.split(",").map((m) => m.trim()).filter(Boolean)));
+    const kept = clampMods(game, mods);
+    if (kept.length < mods.length) {
+      notices.push(
+        !modsSupported(game)
+          ? notice("mods_unsupported", `${game.name} does not support mods, the linked mods were removed`, { game: game.name })
+          : notice("mods_trimmed", `Only the first ${game.maxMods} of ${mods.length} linked mods were kept`, {
+              kept: game.maxMods,
+              count: mods.length,
+            })
+      );
+    }
+    config.mods = kept;
+  }
+
+  return { config, notices };
+};
@@ -0,0 +1,83 @@
+import type { ServerConfig, TierId } from "./types";
+
+export type ServerTier = {
+  id: TierId;
+  label: string;
+  ramMultiplier: number; // headroom applied on top of the raw RAM demand
+  cpuMultiplier: number;
+};
+
+export const SERVER_TIERS: ServerTier[] = [
+  { id: "budget", label: "Budget", ramMultiplier: 1, cpuMultiplier: 1 },
+  { id: "standard", label: "Standard", ramMultiplier: 1.25, cpuMultiplier: 1.5 },
+  { id: "premium", label: "Premium", ramMultiplier: 1.5, cpuMultiplier: 2 },
+];
+
+export const isTierId = (value: string): value is TierId =>
+  SERVER_TIERS.some((t) => t.id === value);
+
+export const getTier = (id: TierId): ServerTier =>
+  SERVER_TIERS.find((t) => t.id === id) || SERVER_TIERS[0];
+
+export type SizingConfig = Pick<
+  ServerConfig,
+  "ramPerPlayer" | "cpuPerPlayer" | "diskPerPlayer" | "minRam" | "minCPU"
+>;
+
+// Used for games whose catalog entry has no serverConfig yet
+export const DEFAULT_SIZING: SizingConfig = {
+  ramPerPlayer: 0.25,
+  cpuPerPlayer: 0.1,
+  diskPerPlayer: 1,
+  minRam: 2,
+  minCPU: 1,
+};
+
+// Extra resources reserved for each installed mod
+export const MOD_RAM_GB = 0.25;
+export const MOD_DISK_GB = 0.5;
+
+export type ResourceAllocation = {
+  ramGB: number;
+  vcpu: number;
+  diskGB: number;
+  // raw RAM demand, before tier headroom, rounding and minimums
+  playerRamGB: number;
+  modRamGB: number;
+  ramAtMinimum: boolean;
+  cpuAtMinimum: boolean;
+};
+
+export const sizeServer = ({
+  serverConfig,
+  players,
+  mods,
+  tier,
+}: {
+  serverConfig?: SizingConfig;
+  players: number;
+  mods: number;
+  tier: TierId;
+}): ResourceAllocation => {
+  const cfg = serverConfig || DEFAULT_SIZING;
+  const t = getTier(tier);
+  const p = Math.max(0, players);
+  const m = Math.max(0, mods);
+
+  const playerRamGB = cfg.ramPerPlayer * p;
+  const modRamGB = MOD_RAM_GB * m;
+
+  // RAM is sold in whole GB, CPU in whole vCPU
+  const ramDemand = Math.ceil((playerRamGB + modRamGB) * t.ramMultiplier);
+  const cpuDemand = Math.ceil(cfg.cpuPerPlayer * p * t.cpuMultiplier);
+
+  return {
+    ramGB: Math.max(cfg.minRam, ramDemand),
+    vcpu: Math.max(cfg.minCPU, cpuDemand),
+    diskGB: Math.ceil(cfg.diskPerPlayer * p + MOD_DISK_GB * m),
+    playerRamGB,
+    modRamGB,
+    ramAtMinimum: ramDemand <= cfg.minRam,
+    cpuAtMinimum: cpuDemand <= cfg.minCPU,
+  };
+};
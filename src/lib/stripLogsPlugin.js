@@ -0,0 +1,12 @@
+// Vite plugin marking debug logging as side-effect free in production builds,
+// so the minifier drops console.log and console.debug calls. Warnings and
+// errors are kept.
+export const stripLogsPlugin = () => {
+  return {
+    name: 'strip-logs-plugin',
+    config(_config, { command }) {
+      if (command !== 'build') return;
+      return { esbuild: { pure: ['console.log', 'console.debug'] } };
+    }
+  };
+};
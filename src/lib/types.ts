@@ -0,0 +1,75 @@
+// Shared catalog types, mirroring the payloads served by the pulldata handler.
+
+export type ServerConfig = {
+  ramPerPlayer: number; // GB of RAM per player slot
+  cpuPerPlayer: number; // vCPU per player slot
+  diskPerPlayer: number; // GB of disk per player slot
+  minRam: number; // GB
+  minCPU: number; // vCPU
+  standard_PID: number;
+  premium_PID: number;
+  standard_RAM_CID: number;
+  premium_RAM_CID: number;
+  standard_Location_CID: number;
+  premium_Location_CID: number;
+};
+
+export type GameInfo = {
+  id: string; // e.g. "minecraft"
+  name: string; // e.g. "Minecraft"
+  minPlayers: number;
+  maxPlayers: number;
+  minMods: number; // 0 => no mods required
+  maxMods: number; // 0 => mods not supported
+  image?: string;
+  startingPrice?: number; // monthly, overrides the computed "Starting at" price
+  tags?: string[]; // categories / genres, e.g. ["survival", "sandbox"]
+  popularity?: number; // higher sorts first
+  serverConfig?: ServerConfig;
+};
+
+// One selling currency from currencies.json. Prices are computed in USD and
+// converted for display; billing charges in the chosen currency.
+export type CurrencyInfo = {
+  code: string; // ISO 4217, e.g. "EUR"
+  rate: number; // units of this currency per 1 USD
+  name?: string; // e.g. "Euro"
+  locale?: string; // formatting locale, e.g. "de-DE"
+};
+
+export type LocationInfo = {
+  id: string;
+  name: string;
+  ping?: string; // static estimate, e.g. "24ms"
+  probeUrl?: string; // small CORS-agnostic endpoint in the region, used to measure latency
+};
+
+export type ModInfo = {
+  id: string; // e.g. "sodium"
+  name: string;
+  version?: string;
+  description?: string;
+  author?: string;
+};
+
+// A preset configuration shown in PlansGrid; resources are sized per game
+export type PlanInfo = {
+  id: string; // e.g. "iron-forge"
+  name: string;
+  tier: TierId;
+  players: number; // sizing target, clamped to the game's player range
+  description?: string;
+  icon?: string;
+  backups: number;
+  databases: number;
+  games?: string[]; // game ids; absent or empty => offered for every game
+  translations?: Record<string, { name?: string; description?: string }>; // keyed by locale
+};
+
+// Server tiers (performance): budget / standard / premium
+export type TierId = "budget" | "standard" | "premium";
+
+// Parsed from buildlink's {"cart-link": "..."} payload
+export type BuildLinkResponse = {
+  cartLink: string;
+};
@@ -0,0 +1,108 @@
+// The configuration rules: players, location and mods checked against the
+// game. The configurator shows these errors inline and /api/checkout rejects
+// requests with them, so both always agree.
+import type { GameInfo, LocationInfo, ModInfo } from "./types";
+
+export type ValidationField = "gameId" | "players" | "locationId" | "mods";
+
+export const VALIDATION_CODES = [
+  "game_missing",
+  "game_unavailable",
+  "players_missing",
+  "players_range",
+  "location_missing",
+  "location_unknown",
+  "mods_unsupported",
+  "mods_duplicate",
+  "mods_unknown",
+  "mods_min",
+  "mods_max",
+] as const;
+export type ValidationCode = (typeof VALIDATION_CODES)[number];
+
+export type ValidationError = {
+  field: ValidationField;
+  code: ValidationCode; // `validation.<code>` in the message catalogs
+  params: Record<string, string | number>;
+  message: string; // English, for API responses and logs
+};
+
+export type ConfigInput = {
+  players?: number | ""; // "" while the input is empty
+  locationId?: string;
+  mods: string[];
+};
+
+type PlayerLimits = Pick<GameInfo, "minPlayers" | "maxPlayers">;
+
+// The same limits for code that fits a value instead of reporting it: plan
+// sizes, shared links, game changes in the configurator
+export const clampPlayers = (game: PlayerLimits, players: number) =>
+  Math.max(game.minPlayers, Math.min(game.maxPlayers, players));
+
+export const modsSupported = (game: Pick<GameInfo, "maxMods">) => game.maxMods > 0;
+
+export const modsRequired = (game: Pick<GameInfo, "minMods">) => game.minMods > 0;
+
+// Keeps the first mods the game allows; none when it doesn't support mods
+export const clampMods = <T,>(game: Pick<GameInfo, "maxMods">, mods: T[]) => mods.slice(0, Math.max(0, game.maxMods));
+
+export const canAddMod = (game: Pick<GameInfo, "maxMods">, mods: unknown[]) => mods.length < game.maxMods;
+
+// Mods priced before the visitor picks any: the game's required minimum
+export const defaultModCount = (game: Pick<GameInfo, "minMods">) => game.minMods;
+
+const error = (
+  field: ValidationField,
+  code: ValidationCode,
+  message: string,
+  params: Record<string, string | number> = {}
+): ValidationError => ({ field, code, params, message });
+
+// Returns the first problem for each field, in form order. Mod ids are checked
+// against `modCatalog` only when one is passed.
+export const validateConfig = (
+  input: ConfigInput,
+  game: GameInfo | null | undefined,
+  locations: LocationInfo[],
+  modCatalog?: ModInfo[]
+): ValidationError[] => {
+  if (!game) return [error("gameId", "game_missing", "Please select a game")];
+  const errors: ValidationError[] = [];
+
+  if (!game.serverConfig) {
+    errors.push(error("gameId", "game_unavailable", `${game.name} is not available for online checkout yet`, { game: game.name }));
+  }
+
+  const range = { min: game.minPlayers, max: game.maxPlayers };
+  if (input.players === undefined || input.players === "") {
+    errors.push(error("players", "players_missing", "Please select the number of players"));
+  } else if (!Number.isInteger(input.players) || clampPlayers(game, input.players) !== input.players) {
+    errors.push(error("players", "players_range", `Players must be between ${range.min} and ${range.max}`, range));
+  }
+
+  if (!input.locationId) {
+    errors.push(error("locationId", "location_missing", "Please select a location"));
+  } else if (!locations.some((l) => l.id === input.locationId)) {
+    errors.push(error("locationId", "location_unknown", `Unknown location ${input.locationId}`, { location: input.locationId }));
+  }
+
+  const mods = input.mods;
+  const unknown = modCatalog ? mods.filter((id) => !modCatalog.some((m) => m.id === id)) : [];
+  if (!modsSupported(game) && mods.length > 0) {
+    errors.push(error("mods", "mods_unsupported", `${game.name} does not support mods`, { game: game.name }));
+  } else if (new Set(mods).size !== mods.length) {
+    errors.push(error("mods", "mods_duplicate", "Each mod can only be selected once"));
+  } else if (unknown.length) {
+    errors.push(error("mods", "mods_unknown", `Unknown mods: ${unknown.join(", ")}`, { mods: unknown.join(", ") }));
+  } else if (mods.length < game.minMods) {
+    errors.push(error("mods", "mods_min", `Minimum ${game.minMods} mods required`, { count: game.minMods }));
+  } else if (mods.length > game.maxMods) {
+    errors.push(error("mods", "mods_max", `Maximum ${game.maxMods} mods allowed`, { count: game.maxMods }));
+  }
+
+  return errors;
+};
+
+export const fieldError = (errors: ValidationError[], field: ValidationField) =>
+  errors.find((e) => e.field === field) ?? null;
@@ -0,0 +1,34 @@
+// Locale routing. /de/... is served by the same pages as /... with
+// `locals.locale` set; unprefixed page requests are redirected to the visitor's
+// language (switcher cookie first, then Accept-Language).
+import { defineMiddleware } from "astro:middleware";
+import { DEFAULT_LOCALE, LOCALE_COOKIE, isLocale, localePath, negotiateLocale, splitLocalePath } from "./lib/i18n";
+
+// the admin editor is English only and never redirected
+const isPageRequest = (request: Request, path: string) =>
+  request.method === "GET" && !path.startsWith("/api/") && !path.startsWith("/_") && !path.startsWith("/admin");
+
+export const onRequest = defineMiddleware((context, next) => {
+  // re-entered through Astro.rewrite (e.g. to /404): keep the locale already chosen
+  if (context.locals.locale) return next();
+
+  const { url, request, cookies } = context;
+  const { locale, path } = splitLocalePath(url.pathname);
+  context.locals.locale = locale;
+  if (locale !== DEFAULT_LOCALE) return next(`${path}${url.search}`);
+
+  if (!isPageRequest(request, path)) return next();
+
+  const chosen = cookies.get(LOCALE_COOKIE)?.value;
+  const preferred = isLocale(chosen) ? chosen : negotiateLocale(request.headers.get("Accept-Language"));
+  if (preferred && preferred !== DEFAULT_LOCALE) {
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `${localePath(preferred, path)}${url.search}`,
+        Vary: "Accept-Language, Cookie",
+      },
+    });
+  }
+  return next();
+});
@@ -0,0 +1,64 @@
+// POST /api/admin/catalog
+// Publishes one catalog file edited in /admin. The body is
+// {"file": "games.json", "data": [...]}; entries are validated with the
+// storefront's parsers, written through the catalog store, and the file's
+// cached copies are purged. Requires the ADMIN_TOKEN (see lib/adminAuth.ts),
+// a JSON content type and, from browsers, a same-origin request.
+import type { APIRoute } from "astro";
+import { isAdminRequest, isSameOriginRequest } from "../../../lib/adminAuth";
+import { SchemaError } from "../../../lib/apiErrors";
+import { isCatalogFile, validateCatalogFile } from "../../../lib/catalogAdmin";
+import type { CatalogEntry, CatalogFile } from "../../../lib/catalogAdmin";
+import { purgeFile } from "../../../lib/catalogCache";
+import { catalogStore } from "../../../lib/catalogStore";
+import { cacheOptions } from "../../../lib/serverCatalog";
+import { parseArray, parseObject } from "../../../lib/schema";
+
+export const prerender = false;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const env = locals.runtime?.env;
+  if (!env?.ADMIN_TOKEN) return json({ ok: false, error: "The catalog admin is not configured" }, 503);
+  if (!isSameOriginRequest(request)) return json({ ok: false, error: "Cross-site requests are not allowed" }, 403);
+  // a form can't send application/json, so this also rules out form posts
+  const contentType = request.headers.get("Content-Type")?.split(";")[0].trim().toLowerCase();
+  if (contentType !== "application/json") {
+    return json({ ok: false, error: "Content-Type must be application/json" }, 415);
+  }
+  if (!isAdminRequest(request, env.ADMIN_TOKEN)) return json({ ok: false, error: "Unauthorized" }, 401);
+
+  let file: CatalogFile;
+  let entries: CatalogEntry[];
+  try {
+    const body = parseObject(await request.json(), "body");
+    if (!isCatalogFile(body.file)) return json({ ok: false, error: `Unknown catalog file ${String(body.file)}`, field: "file" }, 400);
+    file = body.file;
+    entries = parseArray(body.data, file, parseObject);
+  } catch (e) {
+    return json({ ok: false, error: e instanceof SchemaError ? e.message : "Request body must be JSON" }, 400);
+  }
+
+  const store = await catalogStore(locals);
+  if (!store.canPublish) return json({ ok: false, error: "Publishing is not configured (CATALOG_PUBLISH_TOKEN)" }, 503);
+  try {
+    // plans may only name games that exist
+    const gameIds =
+      file === "plans.json" ? (await store.read("games.json")).map((g) => g.id).filter((id): id is string => typeof id === "string") : undefined;
+    const problems = validateCatalogFile(file, entries, gameIds);
+    if (problems.length) return json({ ok: false, error: problems[0], problems, field: "data" }, 400);
+
+    await store.write(file, entries);
+  } catch (e) {
+    console.error(`Publishing ${file} failed:`, e);
+    return json({ ok: false, error: `Could not publish ${file}: ${e instanceof Error ? e.message : "upstream error"}` }, 502);
+  }
+
+  const purged = await purgeFile(cacheOptions(locals), file);
+  return json({ ok: true, data: { file, count: entries.length, purged } });
+};
@@ -0,0 +1,33 @@
+// POST /api/cache/purge
+// Marks cached catalog entries stale so the next request refetches them.
+// Requires `Authorization: Bearer <CACHE_PURGE_TOKEN>`. An optional JSON body
+// {"keys": ["games.json", "plans.json:minecraft"]} limits the purge.
+import type { APIRoute } from "astro";
+import { safeEqual } from "../../../lib/adminAuth";
+import { purge } from "../../../lib/catalogCache";
+import { cacheOptions } from "../../../lib/serverCatalog";
+
+export const prerender = false;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const env = locals.runtime?.env;
+  const token = env?.CACHE_PURGE_TOKEN;
+  if (!token) {
+    return json({ ok: false, error: "Cache purging is not configured" }, 503);
+  }
+  if (!safeEqual(request.headers.get("Authorization") ?? "", `Bearer ${token}`)) {
+    return json({ ok: false, error: "Unauthorized" }, 401);
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const keys = Array.isArray(body?.keys) ? body.keys.filter((k: unknown): k is string => typeof k === "string") : undefined;
+
+  const purged = await purge(cacheOptions(locals), keys);
+  return json({ ok: true, data: { purged } });
+};
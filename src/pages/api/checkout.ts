@@ -0,0 +1,173 @@
+// POST /api/checkout
+// Re-validates the configurator's state against the catalog, recomputes the
+// price and asks the upstream API for a cart link. The body is either one
+// CheckoutRequest (buildlink) or a cart of them, {items, currency}: one
+// buildcart link while CART_CHECKOUT is on, otherwise a buildlink link per server.
+import type { APIRoute } from "astro";
+import { buildCartLink, buildLink, fetchPromoCode } from "../../lib/api";
+import type { BuildLinkParams } from "../../lib/api";
+import { HttpError, SchemaError } from "../../lib/apiErrors";
+import { MAX_CART_ITEMS } from "../../lib/cart";
+import { buildCheckoutParams } from "../../lib/checkout";
+import { CART_CHECKOUT } from "../../lib/config";
+import type { CartCheckoutResponse, CheckoutRejection, CheckoutRequest, CheckoutResponse } from "../../lib/checkout";
+import { BASE_CURRENCY } from "../../lib/currency";
+import { buildQuote } from "../../lib/pricing";
+import type { Quote } from "../../lib/pricing";
+import { promoIneligibility } from "../../lib/promo";
+import type { PromoCode } from "../../lib/promo";
+import { parseCartCheckoutRequest, parseCheckoutRequest } from "../../lib/schema";
+import { serverCatalog } from "../../lib/serverCatalog";
+import { sizeServer } from "../../lib/sizing";
+import { validateConfig } from "../../lib/validation";
+
+export const prerender = false;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+
+type Rejection = Omit<CheckoutRejection, "item">;
+
+const reject = (rejection: Rejection, item?: number) =>
+  json({ ok: false, ...rejection, ...(item === undefined ? {} : { item }) }, 400);
+
+type Catalog = ReturnType<typeof serverCatalog>;
+
+// USD is always accepted; anything else must be listed in currencies.json
+const checkCurrency = async (catalog: Catalog, currency?: string): Promise<Rejection | null> => {
+  if (!currency || currency === BASE_CURRENCY.code) return null;
+  const currencies = await catalog.currencies();
+  return currencies.some((c) => c.code === currency)
+    ? null
+    : { field: "currency", code: "currency_unsupported", params: { currency }, error: `Unsupported currency ${currency}` };
+};
+
+// Checks one server against the catalog and prices it
+const prepare = async (
+  catalog: Catalog,
+  req: CheckoutRequest
+): Promise<{ params: BuildLinkParams; quote: Quote } | Rejection> => {
+  const [games, locations] = await Promise.all([catalog.games(), catalog.locations()]);
+
+  const game = games.find((g) => g.id === req.gameId);
+  if (!game) {
+    return { field: "gameId", code: "game_unknown", params: { game: req.gameId }, error: `Unknown game ${req.gameId}` };
+  }
+
+  const modCatalog = req.mods.length > 0 ? await catalog.mods(game.id) : [];
+  const [problem] = validateConfig(req, game, locations, modCatalog);
+  if (problem) return { field: problem.field, code: problem.code, params: problem.params, error: problem.message };
+
+  let promo: PromoCode | null = null;
+  if (req.promoCode) {
+    try {
+      promo = await fetchPromoCode({ code: req.promoCode, gameId: game.id, tier: req.tier });
+    } catch (e) {
+      // only a missing code is the visitor's problem; other failures are ours
+      if (!(e instanceof HttpError && e.status === 404)) throw e;
+      return { field: "promoCode", code: "promo_invalid", params: { code: req.promoCode }, error: `Unknown promo code ${req.promoCode}` };
+    }
+    const reason = promoIneligibility(promo, { gameId: game.id, tier: req.tier });
+    if (reason) return { field: "promoCode", code: "promo_ineligible", params: { code: promo.code }, error: reason.message };
+  }
+
+  const resources = sizeServer({
+    serverConfig: game.serverConfig,
+    players: req.players,
+    mods: req.mods.length,
+    tier: req.tier,
+  });
+  const quote = buildQuote({
+    resources,
+    tier: req.tier,
+    billingPeriod: req.billingPeriod,
+    mods: req.mods.length,
+    promo,
+  });
+
+  const params = buildCheckoutParams({
+    game,
+    players: req.players,
+    locationId: req.locationId,
+    tier: req.tier,
+    billingPeriod: req.billingPeriod,
+    mods: req.mods,
+    resources,
+    promoCode: promo?.code,
+    currency: req.currency,
+  });
+  return { params, quote };
+};
+
+const isCart = (body: unknown) => typeof body === "object" && body !== null && "items" in body;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ ok: false, error: "Request body must be JSON" }, 400);
+  }
+
+  const cart = isCart(body);
+  let items: CheckoutRequest[];
+  let currency: string | undefined;
+  try {
+    if (cart) {
+      const req = parseCartCheckoutRequest(body);
+      if (req.items.length > MAX_CART_ITEMS) {
+        return reject({
+          field: "items",
+          code: "cart_size",
+          params: { max: MAX_CART_ITEMS },
+          error: `A cart can hold at most ${MAX_CART_ITEMS} servers`,
+        });
+      }
+      currency = req.currency;
+      items = req.items.map((item) => ({ ...item, currency }));
+    } else {
+      items = [parseCheckoutRequest(body)];
+      currency = items[0].currency;
+    }
+  } catch (e) {
+    return json({ ok: false, error: e instanceof SchemaError ? e.message : "Invalid checkout request" }, 400);
+  }
+
+  try {
+    const catalog = serverCatalog(locals);
+
+    const currencyProblem = await checkCurrency(catalog, currency);
+    if (currencyProblem) return reject(currencyProblem);
+
+    const prepared = await Promise.all(items.map((item) => prepare(catalog, item)));
+    const failed = prepared.findIndex((p) => "error" in p);
+    if (failed >= 0) {
+      const problem = prepared[failed] as Rejection;
+      return cart ? reject({ ...problem, error: `Server ${failed + 1}: ${problem.error}` }, failed) : reject(problem);
+    }
+    const ready = prepared as { params: BuildLinkParams; quote: Quote }[];
+
+    if (!cart) {
+      const { cartLink } = await buildLink(ready[0].params);
+      const data: CheckoutResponse = { cartLink, quote: ready[0].quote };
+      return json({ ok: true, data });
+    }
+
+    let cartLinks: string[];
+    if (CART_CHECKOUT) {
+      cartLinks = [(await buildCartLink(ready.map((r) => r.params), currency)).cartLink];
+    } else {
+      // one at a time, so the links come back in cart order
+      cartLinks = [];
+      for (const r of ready) cartLinks.push((await buildLink(r.params)).cartLink);
+    }
+    const data: CartCheckoutResponse = { cartLinks, quotes: ready.map((r) => r.quote) };
+    return json({ ok: true, data });
+  } catch (e) {
+    console.error("Checkout failed:", e);
+    return json({ ok: false, error: "Could not create a checkout link, please try again later" }, 502);
+  }
+};
@@ -0,0 +1,55 @@
+// POST /api/events
+// First-party collection endpoint for the funnel analytics in lib/analytics.ts.
+// The body is {"events": [...]}. Events are forwarded to EVENTS_FORWARD_URL when
+// it is configured, otherwise written to the worker log as one JSON line each.
+import type { APIRoute } from "astro";
+import { SchemaError } from "../../lib/apiErrors";
+import { parseEventBatch } from "../../lib/schema";
+
+export const prerender = false;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ ok: false, error: "Request body must be JSON" }, 400);
+  }
+
+  let events;
+  try {
+    events = parseEventBatch(body);
+  } catch (e) {
+    return json({ ok: false, error: e instanceof SchemaError ? e.message : "Invalid events" }, 400);
+  }
+
+  const received = Date.now();
+  const records = events.map((event) => ({ ...event, received }));
+  const endpoint = locals.runtime?.env?.EVENTS_FORWARD_URL;
+
+  if (!endpoint) {
+    for (const record of records) console.info(JSON.stringify({ analytics: record }));
+  } else {
+    const forward = fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ events: records }),
+    })
+      .then((res) => {
+        if (!res.ok) console.error(`Event forwarding failed: HTTP ${res.status}`);
+      })
+      .catch((e) => console.error("Event forwarding failed:", e));
+    // answer the beacon right away; the worker finishes forwarding afterwards
+    const ctx = locals.runtime?.ctx;
+    if (ctx) ctx.waitUntil(forward);
+    else await forward;
+  }
+
+  return json({ ok: true, data: { accepted: records.length } }, 202);
+};